@@ -6,10 +6,6 @@ module.exports = {
   reactStrictMode: true,
   async rewrites() {
     return [
-      {
-        source: '/s/:snapshotId',
-        destination: '/api/sameorigin/:snapshotId',
-      },
       { source: '/r/:snapshotId', destination: '/api/share/:snapshotId' },
     ];
   },
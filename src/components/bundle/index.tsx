@@ -0,0 +1,72 @@
+import { Dialog } from '@reach/dialog';
+import type { ImportedDraft } from '../../lib/snapshot-bundle';
+import styles from '../error/ErrorDialog.module.css';
+
+// Uploads a bundle exported from any environment, and resolves to its
+// documents once the server has validated them against `page`.
+export function importBundle(page: string, file: File): Promise<ImportedDraft> {
+  return file
+    .text()
+    .then((bundle) =>
+      self.fetch('/api/import', {
+        method: 'POST',
+        body: JSON.stringify({ page, bundle }),
+        headers: { 'content-type': 'application/json' },
+      })
+    )
+    .then(async (res) => {
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          [json.message, ...(json.errors || [])].filter(Boolean).join('\n') ||
+            res.statusText
+        );
+      }
+      return json;
+    });
+}
+
+// Offers the snapshot being previewed as a download.
+export function ExportDialog({
+  snapshotId,
+  onExit,
+}: {
+  snapshotId: string;
+  onExit: () => void;
+}) {
+  const href = (format: string) =>
+    `/api/export/${encodeURIComponent(snapshotId)}?format=${format}`;
+
+  return (
+    <Dialog
+      isOpen
+      onDismiss={onExit}
+      className={styles.dialog}
+      aria-label="Export these edits"
+    >
+      <p>
+        Download these edits to keep a copy, or to import them into another
+        environment while editing:
+      </p>
+      <ul>
+        <li>
+          <a href={href('json')} download>
+            JSON
+          </a>{' '}
+          — an exact copy.
+        </li>
+        <li>
+          <a href={href('markdown')} download>
+            Markdown
+          </a>{' '}
+          — readable, with a section per field.
+        </li>
+      </ul>
+      <div className={styles.footer}>
+        <button type="button" onClick={onExit}>
+          Done
+        </button>
+      </div>
+    </Dialog>
+  );
+}
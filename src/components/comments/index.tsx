@@ -0,0 +1,248 @@
+import { Dialog } from '@reach/dialog';
+import {
+  createContext,
+  FormEvent,
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import type { EditorUser } from '../../lib/auth';
+import type { CommentThreadView } from '../../lib/comments';
+import styles from './index.module.css';
+
+export const CommentsContext = createContext<{
+  isCommenting: boolean;
+  // Unresolved threads per field id, shown as a badge on the field.
+  openThreadCounts: Record<string, number>;
+  // Opens the threads of a field; only called while commenting.
+  selectField: (id: string) => void;
+}>({ isCommenting: false, openThreadCounts: {}, selectField: () => {} });
+
+export function countOpenThreads(threads: CommentThreadView[]) {
+  const counts: Record<string, number> = {};
+  threads.forEach(({ fieldId, resolved }) => {
+    if (!resolved) counts[fieldId] = (counts[fieldId] || 0) + 1;
+  });
+  return counts;
+}
+
+// Reviewers without an account comment under a name they pick once.
+const NAME_KEY = 'comment-author-name';
+
+function request(
+  snapshotId: string,
+  method: 'GET' | 'POST' | 'PATCH',
+  body?: object
+): Promise<CommentThreadView[]> {
+  return self
+    .fetch(`/api/comments/${encodeURIComponent(snapshotId)}`, {
+      method,
+      body: body && JSON.stringify(body),
+      headers: body && { 'content-type': 'application/json' },
+    })
+    .then(async (res) => {
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          [json.message, ...(json.errors || [])].filter(Boolean).join('\n') ||
+            res.statusText
+        );
+      }
+      return json.threads;
+    });
+}
+
+// Loads a snapshot's threads once `isEnabled`, and keeps them in sync with
+// the changes made through `update`.
+export function useCommentThreads(snapshotId: string, isEnabled: boolean) {
+  const [threads, setThreads] = useState<CommentThreadView[]>([]);
+  const [loadError, setLoadError] = useState<string>(null);
+  useEffect(() => {
+    if (!isEnabled) return;
+    let isCancelled = false;
+    request(snapshotId, 'GET').then(
+      (threads) => {
+        if (isCancelled) return;
+        setThreads(threads);
+        setLoadError(null);
+      },
+      (err) => {
+        if (!isCancelled) setLoadError(err.message);
+      }
+    );
+    return () => {
+      isCancelled = true;
+    };
+  }, [snapshotId, isEnabled]);
+
+  const update = useCallback(
+    (method: 'POST' | 'PATCH', body: object) =>
+      request(snapshotId, method, body).then(setThreads),
+    [snapshotId]
+  );
+  return { threads, loadError, update };
+}
+
+function CommentForm({
+  editor,
+  placeholder,
+  onSubmit,
+}: {
+  editor: EditorUser | null;
+  placeholder: string;
+  onSubmit: (comment: { body: string; name?: string }) => Promise<void>;
+}) {
+  const [body, setBody] = useState('');
+  const [name, setName] = useState('');
+  useEffect(() => setName(localStorage.getItem(NAME_KEY) || ''), []);
+
+  const [isSending, setSending] = useState(false);
+  const [error, setError] = useState<string>(null);
+  const submit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      setSending(true);
+      setError(null);
+      if (!editor) localStorage.setItem(NAME_KEY, name);
+      onSubmit(editor ? { body } : { body, name })
+        .then(() => setBody(''))
+        .catch((err) => setError(err.message))
+        .finally(() => setSending(false));
+    },
+    [editor, body, name, onSubmit]
+  );
+
+  return (
+    <form className={styles.form} onSubmit={submit}>
+      <textarea
+        aria-label={placeholder}
+        placeholder={placeholder}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        required
+      />
+      {!editor && (
+        <input
+          type="text"
+          aria-label="Your name"
+          placeholder="Your name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+      )}
+      <button type="submit" disabled={isSending}>
+        {isSending ? 'Sending…' : 'Send'}
+      </button>
+      {error && <pre role="alert">{error}</pre>}
+    </form>
+  );
+}
+
+function Thread({
+  thread,
+  editor,
+  update,
+}: {
+  thread: CommentThreadView;
+  editor: EditorUser | null;
+  update: (method: 'POST' | 'PATCH', body: object) => Promise<void>;
+}) {
+  const reply = useCallback(
+    (comment: object) => update('POST', { ...comment, threadId: thread.id }),
+    [thread.id, update]
+  );
+  const [error, setError] = useState<string>(null);
+  const toggleResolved = useCallback(() => {
+    setError(null);
+    update('PATCH', { threadId: thread.id, resolved: !thread.resolved }).catch(
+      (err) => setError(err.message)
+    );
+  }, [thread, update]);
+
+  return (
+    <li className={thread.resolved ? styles.resolved : undefined}>
+      <ol className={styles.comments}>
+        {thread.comments.map(({ id, author, body, createdAt }) => (
+          <li key={id}>
+            <strong>{author.name}</strong>{' '}
+            <small>{new Date(createdAt).toLocaleString()}</small>
+            <p>{body}</p>
+          </li>
+        ))}
+      </ol>
+      {thread.canResolve && (
+        <button type="button" onClick={toggleResolved}>
+          {thread.resolved ? 'Reopen' : 'Resolve'}
+        </button>
+      )}
+      {error && <pre role="alert">{error}</pre>}
+      {!thread.resolved && (
+        <CommentForm editor={editor} placeholder="Reply" onSubmit={reply} />
+      )}
+    </li>
+  );
+}
+
+// The threads anchored to one field, and a form to start another.
+export function CommentsDialog({
+  fieldId,
+  threads,
+  loadError,
+  editor,
+  update,
+  onExit,
+}: {
+  fieldId: string;
+  threads: CommentThreadView[];
+  // Why the threads couldn't be loaded, if they couldn't.
+  loadError: string | null;
+  editor: EditorUser | null;
+  update: (method: 'POST' | 'PATCH', body: object) => Promise<void>;
+  onExit: () => void;
+}) {
+  const startThread = useCallback(
+    (comment: object) => update('POST', { ...comment, fieldId }),
+    [fieldId, update]
+  );
+  const fieldThreads = threads.filter((thread) => thread.fieldId === fieldId);
+
+  return (
+    <Dialog
+      isOpen
+      onDismiss={onExit}
+      className={styles.dialog}
+      aria-label={`Comments on ${fieldId}`}
+    >
+      <div className="p">
+        Comments on <code>{fieldId}</code>
+      </div>
+      {loadError && (
+        <pre role="alert">The comments could not be loaded. {loadError}</pre>
+      )}
+      {fieldThreads.length > 0 && (
+        <ul className={styles.threads}>
+          {fieldThreads.map((thread) => (
+            <Thread
+              key={thread.id}
+              thread={thread}
+              editor={editor}
+              update={update}
+            />
+          ))}
+        </ul>
+      )}
+      <CommentForm
+        editor={editor}
+        placeholder="Start a new thread"
+        onSubmit={startThread}
+      />
+      <div data-cta>
+        <button type="button" onClick={onExit}>
+          Done
+        </button>
+      </div>
+    </Dialog>
+  );
+}
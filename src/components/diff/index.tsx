@@ -0,0 +1,62 @@
+import { createContext, useContext, useEffect } from 'react';
+import { DiffPart } from '../../lib/diff';
+import styles from './index.module.css';
+
+export const ChangesContext = createContext<{
+  showChanges: boolean;
+  // Lets each `Malleable` whose content differs from the published page
+  // register itself, so the summary panel can list it. Returns a function that
+  // removes the registration.
+  trackChange: (id: string) => () => void;
+}>({ showChanges: false, trackChange: () => () => {} });
+
+export function useTrackChange(id: string, isChanged: boolean) {
+  const { trackChange } = useContext(ChangesContext);
+  useEffect(
+    () => (isChanged ? trackChange(id) : undefined),
+    [trackChange, id, isChanged]
+  );
+}
+
+export function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <>
+      {parts.map(({ type, value }, index) =>
+        type === 'insert' ? (
+          <ins key={index} className={styles.insert}>
+            {value}
+          </ins>
+        ) : type === 'delete' ? (
+          <del key={index} className={styles.delete}>
+            {value}
+          </del>
+        ) : (
+          <span key={index}>{value}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function ChangesPanel({ changedIds }: { changedIds: string[] }) {
+  return (
+    <nav className={styles.panel} aria-label="Changed fields">
+      <strong>
+        {changedIds.length === 1
+          ? '1 changed field'
+          : `${changedIds.length} changed fields`}
+      </strong>
+      {changedIds.length > 0 && (
+        <ul>
+          {changedIds.map((id) => (
+            <li key={id}>
+              <a href={`#${encodeURIComponent(id)}`}>
+                <code>{id}</code>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </nav>
+  );
+}
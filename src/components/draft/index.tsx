@@ -0,0 +1,38 @@
+import { Dialog } from '@reach/dialog';
+import styles from '../error/ErrorDialog.module.css';
+
+// Offers to bring back edits that were autosaved but never shared.
+export function RestoreDraftDialog({
+  savedAt,
+  onRestore,
+  onDiscard,
+  onDismiss,
+}: {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <Dialog
+      isOpen
+      onDismiss={onDismiss}
+      className={styles.dialog}
+      aria-label="Restore unsaved edits"
+    >
+      <p>
+        You have unsaved edits to this page from{' '}
+        {new Date(savedAt).toLocaleString()}. Would you like to continue where
+        you left off?
+      </p>
+      <div className={styles.footer}>
+        <button type="button" onClick={onDiscard}>
+          Discard
+        </button>{' '}
+        <button type="button" onClick={onRestore}>
+          Restore
+        </button>
+      </div>
+    </Dialog>
+  );
+}
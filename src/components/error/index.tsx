@@ -1,18 +1,55 @@
 import { Dialog } from '@reach/dialog';
 import { ReactNode } from 'react';
+import type { ErrorCode } from '../../lib/errors';
+import layoutStyles from '../../styles/layout.module.css';
 import styles from './ErrorDialog.module.css';
 
+// What pages outside "Preview Mode" (share landing pages, history) render
+// when their data can't be loaded, like `PreviewProps` for preview pages.
+export type ErrorPageProps = {
+  hasError: true;
+  code: ErrorCode;
+  message: string;
+};
+
+export function ErrorPage({ code, message }: ErrorPageProps) {
+  return (
+    <div className={layoutStyles.layout}>
+      <h1>Oops</h1>
+      <h2>
+        {code === 'storage-unavailable'
+          ? 'Previews are unavailable right now.'
+          : 'Something went wrong.'}
+      </h2>
+      <div className="explanation" style={{ textAlign: 'center' }}>
+        <p>{message}</p>
+        {code === 'storage-unavailable' && (
+          <p>This is usually temporary. Refresh the page to try again.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function ErrorDialog({
   children,
   onExit,
+  onRetry,
 }: {
   children: ReactNode;
   onExit: () => void;
+  // Offered when the failure is likely to go away by itself.
+  onRetry?: () => void;
 }) {
   return (
     <Dialog isOpen onDismiss={onExit} className={styles.dialog}>
       {children}
       <div className={styles.footer}>
+        {onRetry && (
+          <button type="button" onClick={onRetry}>
+            Try again
+          </button>
+        )}
         <button type="button" onClick={onExit}>
           OK
         </button>
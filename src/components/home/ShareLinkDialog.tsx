@@ -2,15 +2,21 @@ import { Dialog } from '@reach/dialog';
 import copy from 'copy-to-clipboard';
 import { useCallback, useState } from 'react';
 import styles from './ShareLinkDialog.module.css';
+import { ShareProtectionForm } from './ShareProtectionForm';
 
 export function ShareLinkDialog({
   snapshotId,
+  alias,
+  manageToken,
   onExit,
 }: {
   snapshotId: string;
+  // The short form of the link, when the save returned one.
+  alias?: string;
+  manageToken?: string;
   onExit: () => void;
 }) {
-  const shareUrl = `${window.origin}/s/${encodeURI(snapshotId)}`;
+  const shareUrl = `${window.origin}/s/${encodeURI(alias ?? snapshotId)}`;
 
   const [didCopy, setCopied] = useState(false);
   const copyShareUrl = useCallback(() => {
@@ -25,6 +31,12 @@ export function ShareLinkDialog({
         <br />
         <pre>{shareUrl}</pre>
       </div>
+      {manageToken && (
+        <ShareProtectionForm
+          snapshotId={snapshotId}
+          manageToken={manageToken}
+        />
+      )}
       <div className="p">
         What happened?
         <ul>
@@ -0,0 +1,108 @@
+import { FormEvent, useCallback, useState } from 'react';
+import styles from './ShareLinkDialog.module.css';
+
+type Protections = {
+  expiresAt: string | null;
+  maxViews: number | null;
+  hasPassphrase: boolean;
+};
+
+// Lets the author restrict who can open a share link, and for how long.
+export function ShareProtectionForm({
+  snapshotId,
+  manageToken,
+}: {
+  snapshotId: string;
+  manageToken: string;
+}) {
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+
+  const [isSaving, setSaving] = useState(false);
+  const [saved, setSaved] = useState<Protections>(null);
+  const [error, setError] = useState<string>(null);
+
+  const onSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      setSaving(true);
+      setError(null);
+
+      self
+        .fetch(`/api/share-settings/${encodeURIComponent(snapshotId)}`, {
+          method: 'POST',
+          body: JSON.stringify({
+            manageToken,
+            // `datetime-local` inputs are in the viewer's time zone.
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+            maxViews: maxViews ? Number(maxViews) : null,
+            passphrase: passphrase || null,
+          }),
+          headers: { 'content-type': 'application/json' },
+        })
+        .then(async (res) => {
+          const body = await res.json().catch(() => ({}));
+          if (!res.ok) {
+            throw new Error(
+              [body.message, ...(body.errors || [])]
+                .filter(Boolean)
+                .join('\n') || res.statusText
+            );
+          }
+          setSaved(body);
+        })
+        .catch((err) => setError(err.message))
+        .finally(() => setSaving(false));
+    },
+    [snapshotId, manageToken, expiresAt, maxViews, passphrase]
+  );
+
+  return (
+    <form className={styles.protection} onSubmit={onSubmit}>
+      <details>
+        <summary>Protect this link (optional)</summary>
+        <label>
+          Expires
+          <input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+          />
+        </label>
+        <label>
+          Maximum views
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+          />
+        </label>
+        <label>
+          Passphrase
+          <input
+            type="password"
+            autoComplete="new-password"
+            minLength={4}
+            maxLength={200}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </label>
+        <button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving…' : 'Apply'}
+        </button>
+        {error && <pre role="alert">{error}</pre>}
+        {saved && !error && (
+          <p role="status">
+            {saved.expiresAt || saved.maxViews || saved.hasPassphrase
+              ? 'Protections applied.'
+              : 'This link is unprotected.'}
+          </p>
+        )}
+      </details>
+    </form>
+  );
+}
@@ -0,0 +1,65 @@
+import { createContext, MouseEvent } from 'react';
+import type { LiveParticipant } from '../../lib/live';
+import styles from './index.module.css';
+
+// The names of the other participants focused on each field, keyed by field
+// id. Empty outside of live sessions.
+export const LiveContext = createContext<Record<string, string[]>>({});
+
+export function presenceByField(
+  participants: LiveParticipant[],
+  ownParticipantId: string
+) {
+  const presence: Record<string, string[]> = {};
+  participants.forEach(({ id, name, fieldId }) => {
+    if (id === ownParticipantId || !fieldId) return;
+    (presence[fieldId] ??= []).push(name);
+  });
+  return presence;
+}
+
+// Joins or leaves the live session, and lists who else is in it.
+export function LiveStatus({
+  isLive,
+  isConnected,
+  hasUnsentEdits,
+  participants,
+  ownParticipantId,
+  onToggle,
+}: {
+  isLive: boolean;
+  isConnected: boolean;
+  hasUnsentEdits: boolean;
+  participants: LiveParticipant[];
+  ownParticipantId: string;
+  onToggle: () => void;
+}) {
+  const others = participants.filter(({ id }) => id !== ownParticipantId);
+  const toggle = (e: MouseEvent) => {
+    e.preventDefault();
+    onToggle();
+  };
+
+  return (
+    <div className={styles.status} role="status">
+      <button type="button" onClick={toggle}>
+        {isLive ? 'Leave live session' : 'Edit live with others'}
+      </button>
+      {isLive && (
+        <small>
+          {!isConnected
+            ? 'Connecting…'
+            : others.length
+            ? `Editing with ${others.map(({ name }) => name).join(', ')}`
+            : 'Nobody else is here yet'}
+        </small>
+      )}
+      {isLive && hasUnsentEdits && (
+        <small role="alert">
+          Your latest edits didn't reach the others. They'll be sent again with
+          your next change.
+        </small>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import {
+  isLink,
+  isSafeUrl,
+  RichBlock,
+  RichDocument,
+  RichInline,
+  RichHeadingType,
+  RichLeaf,
+  RichList,
+  RichMark,
+  RichTextBlockType,
+  RICH_HEADING_TYPES,
+} from '../../lib/rich-text';
+
+const BLOCK_ELEMENTS = new Set([
+  'DIV',
+  'P',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'PRE',
+  'UL',
+  'OL',
+  'LI',
+]);
+
+const MARK_ELEMENTS: Record<string, RichMark> = {
+  STRONG: 'bold',
+  B: 'bold',
+  EM: 'italic',
+  I: 'italic',
+  CODE: 'code',
+};
+
+function sameMarks(a: RichLeaf, b: RichLeaf) {
+  return (
+    !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.code === !!b.code
+  );
+}
+
+// Merges adjacent leaves with identical formatting, trims the whitespace that
+// surrounds line breaks, and guarantees at least one child as Slate requires.
+function normalizeInlines(children: RichInline[]): RichInline[] {
+  const merged: RichInline[] = [];
+  for (const child of children) {
+    const last = merged[merged.length - 1];
+    if (last && !isLink(last) && !isLink(child) && sameMarks(last, child)) {
+      merged[merged.length - 1] = { ...last, text: last.text + child.text };
+    } else {
+      merged.push(child);
+    }
+  }
+
+  const result = merged
+    .map((child) =>
+      isLink(child)
+        ? child
+        : { ...child, text: child.text.replace(/ *\n */g, '\n') }
+    )
+    .filter((child) => isLink(child) || child.text !== '');
+
+  if (result.length) {
+    const first = result[0];
+    if (!isLink(first)) first.text = first.text.replace(/^\s+/, '');
+    const last = result[result.length - 1];
+    if (!isLink(last)) last.text = last.text.replace(/\s+$/, '');
+  }
+  return result.length ? result : [{ text: '' }];
+}
+
+// Reads a rendered field back into a document. This works for both the static
+// JSX content and content rendered by `RichText`, so either can seed the
+// editor.
+export function domToDocument(root: HTMLElement): RichDocument {
+  const blocks: RichBlock[] = [];
+  let inlines: RichInline[] = [];
+  let blockType: RichTextBlockType = 'paragraph';
+  // Nested lists are flattened into the outermost one.
+  let list: RichList | null = null;
+
+  const flush = () => {
+    const children = normalizeInlines(inlines);
+    inlines = [];
+    const isEmpty =
+      children.length === 1 && !isLink(children[0]) && children[0].text === '';
+    if (isEmpty) return;
+    if (list) {
+      list.children.push({ type: 'list-item', children });
+    } else {
+      blocks.push({ type: blockType, children });
+    }
+  };
+
+  // `link` collects the leaves of the link currently being read, if any.
+  const walk = (
+    node: Node,
+    marks: Partial<Record<RichMark, true>>,
+    link: RichLeaf[] | null,
+    preformatted: boolean
+  ) => {
+    if (node.nodeType === 3 /* TEXT_NODE */) {
+      // Slate renders zero-width placeholders inside empty text nodes.
+      let text = node.textContent.replace(/\uFEFF/g, '');
+      if (!preformatted) text = text.replace(/[ \t\r\n]+/g, ' ');
+      if (text) (link || inlines).push({ text, ...marks });
+      return;
+    }
+    if (node.nodeType !== 1 /* ELEMENT_NODE */) return;
+
+    const el = node as HTMLElement;
+    if (el.getAttribute('contenteditable') === 'false') return;
+    if (el.tagName === 'BR') {
+      (link || inlines).push({ text: '\n', ...marks });
+      return;
+    }
+
+    const isPre = preformatted || el.tagName === 'PRE';
+    const mark = MARK_ELEMENTS[el.tagName];
+    const childMarks = mark ? { ...marks, [mark]: true as const } : marks;
+
+    if (el.tagName === 'A' && !link) {
+      const url = el.getAttribute('href') || '';
+      if (isSafeUrl(url)) {
+        const children: RichLeaf[] = [];
+        el.childNodes.forEach((child) =>
+          walk(child, childMarks, children, isPre)
+        );
+        if (children.length) inlines.push({ type: 'link', url, children });
+        return;
+      }
+    }
+
+    const walkChildren = () =>
+      el.childNodes.forEach((child) => walk(child, childMarks, link, isPre));
+
+    if (el === root || link || !BLOCK_ELEMENTS.has(el.tagName)) {
+      walkChildren();
+      return;
+    }
+
+    flush();
+    const heading = el.tagName.toLowerCase() as RichHeadingType;
+    if (RICH_HEADING_TYPES.includes(heading)) {
+      const outer = blockType;
+      blockType = heading;
+      walkChildren();
+      flush();
+      blockType = outer;
+    } else if ((el.tagName === 'UL' || el.tagName === 'OL') && !list) {
+      list = {
+        type: el.tagName === 'OL' ? 'numbered-list' : 'bulleted-list',
+        children: [],
+      };
+      walkChildren();
+      flush();
+      if (list.children.length) blocks.push(list);
+      list = null;
+    } else {
+      walkChildren();
+      flush();
+    }
+  };
+
+  walk(root, {}, null, root.tagName === 'PRE');
+  flush();
+
+  return blocks.length
+    ? blocks
+    : [{ type: 'paragraph', children: [{ text: '' }] }];
+}
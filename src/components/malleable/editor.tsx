@@ -1,40 +1,171 @@
-import React, { useMemo, useState } from 'react';
-import { createEditor, Node } from 'slate';
+import isHotkey from 'is-hotkey';
+import React, {
+  KeyboardEvent,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { createEditor, Editor, Node, Range, Text, Transforms } from 'slate';
 import { withHistory } from 'slate-history';
-import { Editable, Slate, withReact } from 'slate-react';
+import {
+  Editable,
+  RenderElementProps,
+  RenderLeafProps,
+  Slate,
+  withReact,
+} from 'slate-react';
+import { RichDocument, RichLeaf } from '../../lib/rich-text';
+import { LiveContext } from '../live';
+import { formatsFor } from './formatting';
 import { ValidElementTypes } from './index';
+import {
+  deleteFieldDocument,
+  setFieldApplier,
+  setFieldDocument,
+} from './registry';
+import { renderMarks } from './rich-text';
+import { HOTKEYS, Toolbar } from './toolbar';
+
+// Links are the only inline elements in our document model.
+function withInlines<T extends Editor>(editor: T): T {
+  const { isInline } = editor;
+  editor.isInline = (element) =>
+    element.type === 'link' ? true : isInline(element);
+  return editor;
+}
+
+// Whether a selection still points at text in a replaced document.
+function isSelectionIn(document: Node[], selection: Range) {
+  const root = { children: document } as Node;
+  return [selection.anchor, selection.focus].every(({ path, offset }) => {
+    if (!Node.has(root, path)) return false;
+    const node = Node.get(root, path);
+    return Text.isText(node) && offset <= node.text.length;
+  });
+}
+
+function Element({ attributes, children, element }: RenderElementProps) {
+  switch (element.type) {
+    case 'link':
+      return (
+        <a {...attributes} href={element.url as string}>
+          {children}
+        </a>
+      );
+    case 'h3':
+      return <h3 {...attributes}>{children}</h3>;
+    case 'h4':
+      return <h4 {...attributes}>{children}</h4>;
+    case 'bulleted-list':
+      return <ul {...attributes}>{children}</ul>;
+    case 'numbered-list':
+      return <ol {...attributes}>{children}</ol>;
+    case 'list-item':
+      return <li {...attributes}>{children}</li>;
+    default:
+      return <div {...attributes}>{children}</div>;
+  }
+}
+
+function Leaf({ attributes, children, leaf }: RenderLeafProps) {
+  return <span {...attributes}>{renderMarks(leaf as RichLeaf, children)}</span>;
+}
 
 export default function SlateWrapper({
   As,
   id,
   className,
-  initialText,
+  initialValue,
   noop,
 }: {
   As: ValidElementTypes;
   id: string;
   className: string;
-  initialText: string;
+  initialValue: RichDocument;
   noop?: boolean;
 }) {
-  const originalState = useMemo(
-    () => [{ children: [{ text: initialText }] }],
-    [initialText]
+  const [value, setValue] = useState<Node[]>(initialValue);
+
+  const editor = useMemo(
+    () => withInlines(withHistory(withReact(createEditor()))),
+    []
+  );
+  const renderElement = useCallback(
+    (props: RenderElementProps) => <Element {...props} />,
+    []
+  );
+  const renderLeaf = useCallback(
+    (props: RenderLeafProps) => <Leaf {...props} />,
+    []
   );
-  const [value, setValue] = useState<Node[]>(originalState);
+  const onKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      // Shift+Enter inserts a line break within the current block, matching
+      // the `<br />`s in the static content.
+      if (isHotkey('shift+enter', event.nativeEvent)) {
+        event.preventDefault();
+        editor.insertText('\n');
+        return;
+      }
+
+      const formats = formatsFor(As);
+      for (const { hotkey, format, apply } of HOTKEYS) {
+        if (formats[format] && isHotkey(hotkey, event.nativeEvent)) {
+          event.preventDefault();
+          apply(editor);
+          return;
+        }
+      }
+    },
+    [editor, As]
+  );
+
+  // Keep the registry in sync so `share()` can read the edited document.
+  useEffect(() => {
+    if (noop) return;
+    setFieldDocument(id, value as RichDocument);
+  }, [noop, id, value]);
+  useEffect(() => {
+    if (noop) return;
+    return () => deleteFieldDocument(id);
+  }, [noop, id]);
 
-  const editor = useMemo(() => withHistory(withReact(createEditor())), []);
+  // A collaborator's edit replaces the document. The caret stays put if it
+  // still fits.
+  useEffect(() => {
+    if (noop) return;
+    return setFieldApplier(id, (document) => {
+      if (editor.selection && !isSelectionIn(document, editor.selection)) {
+        Transforms.deselect(editor);
+      }
+      setValue(document);
+    });
+  }, [noop, id, editor]);
+  const presence = useContext(LiveContext)[id];
 
   if (noop) return null;
 
   return (
-    <As id={id} className={className}>
+    <As
+      id={id}
+      className={className}
+      data-field={id}
+      data-present={presence?.join(', ')}
+    >
       <Slate
         editor={editor}
         value={value}
         onChange={(value) => setValue(value)}
       >
-        <Editable placeholder={'...'} />
+        <Toolbar As={As} />
+        <Editable
+          placeholder={'...'}
+          renderElement={renderElement}
+          renderLeaf={renderLeaf}
+          onKeyDown={onKeyDown}
+        />
       </Slate>
     </As>
   );
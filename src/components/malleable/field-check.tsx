@@ -0,0 +1,72 @@
+import React, { createContext, useContext, useRef } from 'react';
+
+type FieldCheckState = {
+  // How many times each field id was rendered.
+  counts: Map<string, number>;
+  // Child id → parent id, for fields rendered inside another field.
+  nested: Map<string, string>;
+};
+
+const FieldCheckContext = createContext<FieldCheckState | null>(null);
+
+// The id of the closest enclosing `Malleable`, if any.
+const ParentFieldContext = createContext<string | null>(null);
+
+export const ParentFieldProvider = ParentFieldContext.Provider;
+
+// Only the server render is checked: it renders each component exactly once
+// and in document order, both at build time and on every request in `next
+// dev`. The client may render twice (Strict Mode) or partially.
+const isServer = typeof window === 'undefined';
+
+// Records a rendered field. Call from `Malleable` on every render.
+export function useFieldCheck(id: string) {
+  const state = useContext(FieldCheckContext);
+  const parentId = useContext(ParentFieldContext);
+  if (!isServer || !state) return;
+
+  state.counts.set(id, (state.counts.get(id) || 0) + 1);
+  if (parentId !== null) state.nested.set(id, parentId);
+}
+
+function describeFieldProblems({ counts, nested }: FieldCheckState) {
+  const problems: string[] = [];
+  counts.forEach((count, id) => {
+    if (count > 1) problems.push(`"${id}" is used by ${count} fields.`);
+  });
+  nested.forEach((parentId, id) => {
+    problems.push(`"${id}" is nested inside "${parentId}".`);
+  });
+  return problems;
+}
+
+// Rendered after every field, so it sees all of them.
+function FieldCheckReport({ state }: { state: FieldCheckState }) {
+  const problems = describeFieldProblems(state);
+  if (problems.length) {
+    // Fails `next build` while prerendering, and shows the error overlay in
+    // `next dev`.
+    throw new Error(
+      [
+        'Editable fields must have unique ids and must not be nested, as a ' +
+          'saved edit is looked up by id:',
+        ...problems.map((problem) => `  - ${problem}`),
+      ].join('\n')
+    );
+  }
+  return null;
+}
+
+// Validates that the `Malleable` fields rendered inside it have unique ids
+// and aren't nested in one another.
+export function FieldCheck({ children }: { children: React.ReactNode }) {
+  const state = useRef<FieldCheckState>();
+  if (!state.current) state.current = { counts: new Map(), nested: new Map() };
+
+  return (
+    <FieldCheckContext.Provider value={state.current}>
+      {children}
+      {isServer && <FieldCheckReport state={state.current} />}
+    </FieldCheckContext.Provider>
+  );
+}
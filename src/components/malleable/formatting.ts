@@ -0,0 +1,99 @@
+import { Editor, Element, Node, Range, Transforms } from 'slate';
+import { HistoryEditor } from 'slate-history';
+import {
+  isSafeUrl,
+  RichHeadingType,
+  RichListType,
+  RichMark,
+  RICH_LIST_TYPES,
+} from '../../lib/rich-text';
+
+export { formatsFor } from '../../lib/rich-text';
+
+export type BlockFormat = RichHeadingType | RichListType;
+
+const isList = (node: Node) =>
+  Element.isElement(node) &&
+  RICH_LIST_TYPES.includes(node.type as RichListType);
+
+export function isMarkActive(editor: Editor, mark: RichMark) {
+  const marks = Editor.marks(editor);
+  return marks ? marks[mark] === true : false;
+}
+
+export function toggleMark(editor: Editor, mark: RichMark) {
+  if (isMarkActive(editor, mark)) {
+    Editor.removeMark(editor, mark);
+  } else {
+    Editor.addMark(editor, mark, true);
+  }
+}
+
+export function isBlockActive(editor: Editor, format: BlockFormat) {
+  const matches = Editor.nodes(editor, {
+    match: (n) => Element.isElement(n) && n.type === format,
+  });
+  return Array.from(matches).length > 0;
+}
+
+export function toggleBlock(editor: Editor, format: BlockFormat) {
+  const isActive = isBlockActive(editor, format);
+  const isListFormat = RICH_LIST_TYPES.includes(format as RichListType);
+
+  Transforms.unwrapNodes(editor, { match: isList, split: true });
+  Transforms.setNodes(editor, {
+    type: isActive ? 'paragraph' : isListFormat ? 'list-item' : format,
+  });
+  if (!isActive && isListFormat) {
+    Transforms.wrapNodes(editor, { type: format, children: [] });
+  }
+}
+
+export function isLinkActive(editor: Editor) {
+  const links = Editor.nodes(editor, {
+    match: (n) => Element.isElement(n) && n.type === 'link',
+  });
+  return Array.from(links).length > 0;
+}
+
+export function unwrapLink(editor: Editor) {
+  Transforms.unwrapNodes(editor, {
+    match: (n) => Element.isElement(n) && n.type === 'link',
+  });
+}
+
+// Wraps the selection in a link, or inserts the URL as a link when nothing is
+// selected. Unsafe URLs (e.g. `javascript:`) are ignored; the server would
+// reject them anyway.
+export function wrapLink(editor: Editor, url: string) {
+  if (!isSafeUrl(url)) return;
+  if (isLinkActive(editor)) unwrapLink(editor);
+
+  const { selection } = editor;
+  const isCollapsed = selection && Range.isCollapsed(selection);
+  const link = {
+    type: 'link',
+    url,
+    children: isCollapsed ? [{ text: url }] : [],
+  };
+  if (isCollapsed) {
+    Transforms.insertNodes(editor, link);
+  } else {
+    Transforms.wrapNodes(editor, link, { split: true });
+    Transforms.collapse(editor, { edge: 'end' });
+  }
+}
+
+export function toggleLink(editor: Editor) {
+  if (isLinkActive(editor)) {
+    unwrapLink(editor);
+    return;
+  }
+  const url = window.prompt('Link URL (https://, mailto: or /path):');
+  if (url) wrapLink(editor, url.trim());
+}
+
+export const undo = (editor: Editor) =>
+  HistoryEditor.undo(editor as HistoryEditor);
+export const redo = (editor: Editor) =>
+  HistoryEditor.redo(editor as HistoryEditor);
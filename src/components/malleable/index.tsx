@@ -1,7 +1,28 @@
-import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+import React, {
+  Suspense,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { createPortal } from 'react-dom';
+import { diffWords, normalizeText } from '../../lib/diff';
+import { nodeToText } from '../../lib/node-text';
+import { RichDocument, textToDocument } from '../../lib/rich-text';
+import { CommentsContext } from '../comments';
+import { ChangesContext, DiffText, useTrackChange } from '../diff';
+import diffStyles from '../diff/index.module.css';
+import { domToDocument } from './dom';
+import { ParentFieldProvider, useFieldCheck } from './field-check';
+import { RichText } from './rich-text';
 
-export type FieldEdit = { id: string; innerText: string };
+export type FieldEdit = {
+  id: string;
+  innerText: string;
+  // Absent for snapshots saved before rich-text support.
+  document?: RichDocument;
+};
 
 export type ValidElementTypes =
   | 'p'
@@ -25,7 +46,7 @@ function PreloadSlateWrapper() {
 
   return createPortal(
     <Suspense fallback={null}>
-      <SlateWrapper As="div" id="" className="" initialText="" noop />
+      <SlateWrapper As="div" id="" className="" initialValue={[]} noop />
     </Suspense>,
     el
   );
@@ -38,6 +59,7 @@ export default function Malleable({
   as: As = 'p',
   className,
   edits,
+  publishedText,
 }: {
   id: string;
   isActive: boolean;
@@ -45,18 +67,71 @@ export default function Malleable({
   as?: ValidElementTypes;
   className?: string;
   edits: FieldEdit[];
+  // The field's text on the published page, if that changes it.
+  publishedText?: string;
 }) {
-  const editedChildren = useMemo(
-    () => edits?.find((c) => c?.id === id)?.innerText || children,
-    [edits, children, id]
+  useFieldCheck(id);
+  const edit = useMemo(() => edits?.find((c) => c?.id === id), [edits, id]);
+  const editedText = edit?.innerText;
+  // Legacy snapshots only stored plain text, which upgrades to a document with
+  // its line breaks intact.
+  const editedDocument = useMemo(
+    () =>
+      edit?.document ?? (editedText ? textToDocument(editedText) : undefined),
+    [edit, editedText]
+  );
+  const editedChildren = editedText ? (
+    <RichText document={editedDocument} />
+  ) : (
+    <ParentFieldProvider value={id}>{children}</ParentFieldProvider>
   );
 
+  // Compare against the published page (or the static original where it
+  // leaves the field alone) to drive the "show changes" view.
+  const { showChanges } = useContext(ChangesContext);
+  const originalText = useMemo(
+    () => normalizeText(publishedText || nodeToText(children)),
+    [publishedText, children]
+  );
+  const isChanged = !!editedText && normalizeText(editedText) !== originalText;
+  useTrackChange(id, isChanged);
+  const diffParts = useMemo(
+    () =>
+      showChanges && isChanged
+        ? diffWords(originalText, normalizeText(editedText))
+        : null,
+    [showChanges, isChanged, originalText, editedText]
+  );
+
+  // In comment mode, clicking a field opens its threads. The badge is drawn
+  // by CSS from `data-open-threads`, so it never ends up in the field's text.
+  const { isCommenting, openThreadCounts, selectField } =
+    useContext(CommentsContext);
+  const commentProps = {
+    'data-open-threads': openThreadCounts[id] || undefined,
+    ...(isCommenting && {
+      'data-commentable': true,
+      role: 'button',
+      tabIndex: 0,
+      onClick: (e: React.MouseEvent) => {
+        // Don't follow links inside the field.
+        e.preventDefault();
+        selectField(id);
+      },
+      onKeyDown: (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') selectField(id);
+      },
+    }),
+  };
+
   const contentRef = useRef<HTMLElement>();
-  const [initialText, setInitialText] = useState<string>('');
+  const [initialValue, setInitialValue] = useState<RichDocument>(null);
   useEffect(() => {
     if (isActive || !contentRef.current) return;
-    setInitialText(contentRef.current.innerText);
-  }, [editedChildren, isActive, contentRef.current]);
+    setInitialValue(
+      editedText ? editedDocument : domToDocument(contentRef.current)
+    );
+  }, [editedText, editedDocument, isActive, contentRef.current]);
 
   if (As === 'p') {
     As = 'div';
@@ -82,19 +157,35 @@ export default function Malleable({
           As={As}
           id={id}
           className={className}
-          initialText={initialText}
+          initialValue={initialValue}
         />
       </Suspense>
     );
   }
+  if (diffParts) {
+    return (
+      <As
+        className={`${className} ${diffStyles.changed}`}
+        id={id}
+        {...commentProps}
+      >
+        <DiffText parts={diffParts} />
+      </As>
+    );
+  }
   return (
     <>
-      <As ref={contentRef as any} className={className} id={id}>
+      <As
+        ref={contentRef as any}
+        className={className}
+        id={id}
+        {...commentProps}
+      >
         {editedChildren}
       </As>
       {
         // Detect application hydration
-        initialText !== '' && (
+        initialValue !== null && (
           // Prerender the Slate editor to trigger `React.lazy` loading (thereby
           // skipping fallback state)
           <PreloadSlateWrapper />
@@ -0,0 +1,79 @@
+import { RichDocument } from '../../lib/rich-text';
+
+// The current document of every mounted editor, keyed by field id. This is
+// what gets saved when the user shares their edits.
+const documents = new Map<string, RichDocument>();
+
+// Each editor's first document, serialized, to tell whether it was changed.
+const initialDocuments = new Map<string, string>();
+
+const listeners = new Set<() => void>();
+
+export function setFieldDocument(id: string, document: RichDocument) {
+  if (!initialDocuments.has(id)) {
+    initialDocuments.set(id, JSON.stringify(document));
+  }
+  documents.set(id, document);
+  listeners.forEach((listener) => listener());
+}
+
+export function deleteFieldDocument(id: string) {
+  documents.delete(id);
+  initialDocuments.delete(id);
+  listeners.forEach((listener) => listener());
+}
+
+export function getFieldDocuments(): { id: string; document: RichDocument }[] {
+  return Array.from(documents, ([id, document]) => ({ id, document }));
+}
+
+// Whether any mounted editor's document differs from what it started with.
+export function hasFieldChanges() {
+  return Array.from(documents).some(
+    ([id, document]) => JSON.stringify(document) !== initialDocuments.get(id)
+  );
+}
+
+// Calls `listener` whenever an editor's document changes. Returns a function
+// that unsubscribes.
+export function subscribeToFieldDocuments(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Lets live sessions replace an editor's document with a collaborator's.
+const appliers = new Map<string, (document: RichDocument) => void>();
+
+// Documents that arrived before their editor mounted.
+const pendingDocuments = new Map<string, RichDocument>();
+
+// Registers the function that replaces a field's document. Returns a function
+// that unregisters it.
+export function setFieldApplier(
+  id: string,
+  apply: (document: RichDocument) => void
+) {
+  appliers.set(id, apply);
+  if (pendingDocuments.has(id)) {
+    apply(pendingDocuments.get(id));
+    pendingDocuments.delete(id);
+  }
+  return () => {
+    if (appliers.get(id) === apply) appliers.delete(id);
+  };
+}
+
+export function applyFieldDocument(id: string, document: RichDocument) {
+  const apply = appliers.get(id);
+  if (apply) {
+    apply(document);
+  } else {
+    pendingDocuments.set(id, document);
+  }
+}
+
+export function clearPendingDocuments() {
+  pendingDocuments.clear();
+}
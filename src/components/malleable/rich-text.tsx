@@ -0,0 +1,92 @@
+import { Fragment, ReactNode } from 'react';
+import {
+  isLink,
+  isList,
+  RichDocument,
+  RichInline,
+  RichLeaf,
+} from '../../lib/rich-text';
+
+// Splits `\n` soft breaks into `<br />`s.
+export function renderLines(text: string): ReactNode {
+  const lines = text.split('\n');
+  return lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {line}
+    </Fragment>
+  ));
+}
+
+export function renderMarks(leaf: RichLeaf, children: ReactNode): ReactNode {
+  if (leaf.code) children = <code>{children}</code>;
+  if (leaf.italic) children = <em>{children}</em>;
+  if (leaf.bold) children = <strong>{children}</strong>;
+  return children;
+}
+
+function Inlines({ inlines }: { inlines: RichInline[] }) {
+  return (
+    <>
+      {inlines.map((inline, index) =>
+        isLink(inline) ? (
+          <a
+            key={index}
+            href={inline.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+          >
+            {inline.children.map((leaf, leafIndex) => (
+              <Fragment key={leafIndex}>
+                {renderMarks(leaf, renderLines(leaf.text))}
+              </Fragment>
+            ))}
+          </a>
+        ) : (
+          <Fragment key={index}>
+            {renderMarks(inline, renderLines(inline.text))}
+          </Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+// Renders a saved document for preview mode. Consecutive paragraphs are
+// separated by line breaks rather than wrapped in elements, so a plain-text
+// document stays valid HTML inside any of the `ValidElementTypes` (e.g. a
+// `<span>` or `<h2>`).
+export function RichText({ document }: { document: RichDocument }) {
+  return (
+    <>
+      {document.map((block, index) => {
+        if (isList(block)) {
+          const List = block.type === 'numbered-list' ? 'ol' : 'ul';
+          return (
+            <List key={index}>
+              {block.children.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <Inlines inlines={item.children} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+        if (block.type !== 'paragraph') {
+          const Heading = block.type;
+          return (
+            <Heading key={index}>
+              <Inlines inlines={block.children} />
+            </Heading>
+          );
+        }
+        return (
+          <Fragment key={index}>
+            {document[index - 1]?.type === 'paragraph' && <br />}
+            <Inlines inlines={block.children} />
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
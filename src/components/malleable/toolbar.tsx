@@ -0,0 +1,183 @@
+import { MouseEvent, ReactNode, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Editor } from 'slate';
+import { ReactEditor, useFocused, useSlate } from 'slate-react';
+import { RichMark } from '../../lib/rich-text';
+import {
+  BlockFormat,
+  formatsFor,
+  isBlockActive,
+  isLinkActive,
+  isMarkActive,
+  redo,
+  toggleBlock,
+  toggleLink,
+  toggleMark,
+  undo,
+} from './formatting';
+import { ValidElementTypes } from './index';
+import styles from './toolbar.module.css';
+
+// `mod` is Cmd on macOS and Ctrl elsewhere. Undo and redo are handled by
+// `slate-react` itself through `slate-history`.
+export const HOTKEYS: {
+  hotkey: string;
+  format: keyof ReturnType<typeof formatsFor>;
+  apply: (editor: Editor) => void;
+}[] = [
+  { hotkey: 'mod+b', format: 'marks', apply: (e) => toggleMark(e, 'bold') },
+  { hotkey: 'mod+i', format: 'marks', apply: (e) => toggleMark(e, 'italic') },
+  { hotkey: 'mod+`', format: 'marks', apply: (e) => toggleMark(e, 'code') },
+  { hotkey: 'mod+k', format: 'links', apply: (e) => toggleLink(e) },
+  { hotkey: 'mod+alt+3', format: 'blocks', apply: (e) => toggleBlock(e, 'h3') },
+  { hotkey: 'mod+alt+4', format: 'blocks', apply: (e) => toggleBlock(e, 'h4') },
+  {
+    hotkey: 'mod+shift+7',
+    format: 'blocks',
+    apply: (e) => toggleBlock(e, 'numbered-list'),
+  },
+  {
+    hotkey: 'mod+shift+8',
+    format: 'blocks',
+    apply: (e) => toggleBlock(e, 'bulleted-list'),
+  },
+];
+
+function Button({
+  active,
+  title,
+  onPress,
+  children,
+}: {
+  active?: boolean;
+  title: string;
+  onPress: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-pressed={active}
+      className={active ? styles.active : undefined}
+      // Prevent the editor from losing its selection.
+      onMouseDown={(e: MouseEvent) => {
+        e.preventDefault();
+        onPress();
+      }}
+    >
+      {children}
+    </button>
+  );
+}
+
+function MarkButton({
+  mark,
+  title,
+  children,
+}: {
+  mark: RichMark;
+  title: string;
+  children: ReactNode;
+}) {
+  const editor = useSlate();
+  return (
+    <Button
+      active={isMarkActive(editor, mark)}
+      title={title}
+      onPress={() => toggleMark(editor, mark)}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function BlockButton({
+  format,
+  title,
+  children,
+}: {
+  format: BlockFormat;
+  title: string;
+  children: ReactNode;
+}) {
+  const editor = useSlate();
+  return (
+    <Button
+      active={isBlockActive(editor, format)}
+      title={title}
+      onPress={() => toggleBlock(editor, format)}
+    >
+      {children}
+    </Button>
+  );
+}
+
+// A toolbar that floats above the focused field. It is portalled to the body
+// so it doesn't inherit the field's typography (e.g. an `<h1>`).
+export function Toolbar({ As }: { As: ValidElementTypes }) {
+  const editor = useSlate();
+  const isFocused = useFocused();
+  const ref = useRef<HTMLDivElement>();
+  const formats = formatsFor(As);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || !isFocused) return;
+    const rect = ReactEditor.toDOMNode(editor, editor).getBoundingClientRect();
+    el.style.top = `${rect.top + window.pageYOffset - el.offsetHeight - 8}px`;
+    el.style.left = `${rect.left + window.pageXOffset}px`;
+  });
+
+  if (!isFocused) return null;
+
+  return createPortal(
+    <div ref={ref} className={styles.toolbar} role="toolbar">
+      {formats.marks && (
+        <>
+          <MarkButton mark="bold" title="Bold (⌘B)">
+            <strong>B</strong>
+          </MarkButton>
+          <MarkButton mark="italic" title="Italic (⌘I)">
+            <em>I</em>
+          </MarkButton>
+          <MarkButton mark="code" title="Code (⌘`)">
+            <code>{'<>'}</code>
+          </MarkButton>
+        </>
+      )}
+      {formats.links && (
+        <Button
+          active={isLinkActive(editor)}
+          title="Link (⌘K)"
+          onPress={() => toggleLink(editor)}
+        >
+          Link
+        </Button>
+      )}
+      {formats.blocks && (
+        <>
+          <BlockButton format="h3" title="Heading 3 (⌘⌥3)">
+            H3
+          </BlockButton>
+          <BlockButton format="h4" title="Heading 4 (⌘⌥4)">
+            H4
+          </BlockButton>
+          <BlockButton format="bulleted-list" title="Bulleted list (⌘⇧8)">
+            •
+          </BlockButton>
+          <BlockButton format="numbered-list" title="Numbered list (⌘⇧7)">
+            1.
+          </BlockButton>
+        </>
+      )}
+      <Button title="Undo (⌘Z)" onPress={() => undo(editor)}>
+        ↶
+      </Button>
+      <Button title="Redo (⌘⇧Z)" onPress={() => redo(editor)}>
+        ↷
+      </Button>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,78 @@
+import type { ContentField } from '../../content/pages';
+import Malleable, { FieldEdit } from '../malleable';
+import { renderLines } from '../malleable/rich-text';
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4'];
+
+type Block = ContentField | { cards: ContentField[][] };
+
+// Gathers runs of fields that share a card, and runs of cards into rows.
+function toBlocks(fields: ContentField[]): Block[] {
+  const blocks: Block[] = [];
+  fields.forEach((field, i) => {
+    const last = blocks[blocks.length - 1];
+    if (!field.card) {
+      blocks.push(field);
+    } else if (!last || !('cards' in last)) {
+      blocks.push({ cards: [[field]] });
+    } else if (fields[i - 1].card === field.card) {
+      last.cards[last.cards.length - 1].push(field);
+    } else {
+      last.cards.push([field]);
+    }
+  });
+  return blocks;
+}
+
+// Renders a data-defined page's fields in order. Headings sit directly on the
+// page, cards share a `.features` row, and everything else gets the usual
+// `.explanation` column.
+export function ContentFields({
+  fields,
+  isEdit,
+  edits,
+  published,
+}: {
+  fields: ContentField[];
+  isEdit: boolean;
+  edits: FieldEdit[];
+  published: FieldEdit[];
+}) {
+  const renderField = (field: ContentField) => (
+    <Malleable
+      key={field.id}
+      id={field.id}
+      as={field.as}
+      isActive={isEdit}
+      edits={edits}
+      publishedText={published.find(({ id }) => id === field.id)?.innerText}
+    >
+      {renderLines(field.defaultText)}
+    </Malleable>
+  );
+
+  return (
+    <>
+      {toBlocks(fields).map((block) => {
+        if ('cards' in block) {
+          return (
+            <div key={block.cards[0][0].id} className="features">
+              {block.cards.map((card) => (
+                <div key={card[0].id} className="feature">
+                  {card.map(renderField)}
+                </div>
+              ))}
+            </div>
+          );
+        }
+        return HEADINGS.includes(block.as) ? (
+          renderField(block)
+        ) : (
+          <div key={block.id} className="explanation">
+            {renderField(block)}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,588 @@
+import Head from 'next/head';
+import {
+  MouseEvent,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { ContentPage, pagePath } from '../../content/pages';
+import { Draft, useDraft } from '../../hooks/use-draft';
+import { useLiveSession } from '../../hooks/use-live-session';
+import { useSaveSnapshot } from '../../hooks/use-save-snapshot';
+import { useScrollReset } from '../../hooks/use-scroll-reset';
+import { useSession } from '../../hooks/use-session';
+import type { ApiError, ErrorCode } from '../../lib/errors';
+import type { PreviewProps } from '../../lib/preview';
+import { documentToText } from '../../lib/rich-text';
+import layoutStyles from '../../styles/layout.module.css';
+import {
+  CommentsContext,
+  CommentsDialog,
+  countOpenThreads,
+  useCommentThreads,
+} from '../comments';
+import { ExportDialog, importBundle } from '../bundle';
+import { ChangesContext, ChangesPanel } from '../diff';
+import { RestoreDraftDialog } from '../draft';
+import { LiveContext, LiveStatus, presenceByField } from '../live';
+import Edit from '../edit';
+import { ErrorDialog } from '../error';
+import { ShareLinkDialog } from '../home/ShareLinkDialog';
+import { FieldEdit } from '../malleable';
+import { FieldCheck } from '../malleable/field-check';
+import { applyFieldDocument, getFieldDocuments } from '../malleable/registry';
+import Snapshot from '../snapshot';
+
+// Everything around a page's editable fields: the preview bar, the edit and
+// share controls, and their dialogs. `children` renders the fields.
+export default function EditablePage({
+  page,
+  children,
+  ...props
+}: PreviewProps & {
+  page: Pick<ContentPage, 'slug' | 'title' | 'description'>;
+  children: (state: {
+    isEdit: boolean;
+    edits: FieldEdit[];
+    published: FieldEdit[];
+  }) => ReactNode;
+}) {
+  // Scroll to top on mount as to ensure the user sees the "Preview Mode" bar
+  useScrollReset();
+
+  const editor = useSession();
+
+  const [currentSnapshotId, setSnapshotId] = useState(null);
+  const [currentAlias, setAlias] = useState<string>(null);
+  const [currentManageToken, setManageToken] = useState<string>(null);
+  const clearSnapshot = useCallback(() => setSnapshotId(null), [setSnapshotId]);
+
+  const [isEdit, setEdit] = useState(false);
+  const startEdit = useCallback(() => setEdit(true), []);
+
+  // Prevent duplication before re-render
+  const hasSaveRequest = useRef(false);
+  const [isSharingView, _setSharing] = useState(false);
+  const setSharing = useCallback(
+    (sharing: boolean) => {
+      hasSaveRequest.current = sharing;
+      _setSharing(sharing);
+    },
+    [hasSaveRequest, _setSharing]
+  );
+
+  const [currentError, setError] = useState<ApiError>(null);
+  const onClearError = useCallback(() => {
+    setError(null);
+  }, [setError]);
+
+  // An optional, author-supplied label describing this revision.
+  const [label, setLabel] = useState('');
+
+  // The snapshot these edits branch from, if any.
+  const baseSnapshotId =
+    props.isPreview && props.snapshotPage === page.slug
+      ? props.snapshotId
+      : null;
+
+  // Edits are autosaved locally, per page and snapshot being edited, so a
+  // refresh or failed share doesn't lose them.
+  const [restoredDraft, setRestoredDraft] = useState<Draft>(null);
+  const {
+    draft,
+    status: draftStatus,
+    hasChanges,
+    discard: discardDraft,
+    dismiss: dismissDraft,
+  } = useDraft({
+    page: page.slug,
+    baseSnapshotId,
+    isEdit,
+    label,
+    isRestored: restoredDraft !== null,
+  });
+  const restoreDraft = useCallback(() => {
+    setRestoredDraft(draft);
+    setLabel(draft.label);
+    dismissDraft();
+  }, [draft, dismissDraft]);
+  // Start editing once the editors have picked up the restored documents.
+  useEffect(() => {
+    if (restoredDraft) setEdit(true);
+  }, [restoredDraft]);
+
+  // In a live session, everybody editing the same draft sees each other's
+  // changes, and one of them shares the merged result.
+  const [isLive, setLive] = useState(false);
+  const toggleLive = useCallback(() => setLive(!isLive), [isLive]);
+  const {
+    participantId,
+    participants,
+    isConnected,
+    hasUnsentEdits,
+    announceSaved,
+  } = useLiveSession({
+    page: page.slug,
+    baseSnapshotId,
+    isEnabled: isEdit && isLive,
+    onSaved: (snapshotId) => {
+      discardDraft();
+      setAlias(null);
+      setManageToken(null);
+      setSnapshotId(snapshotId);
+    },
+  });
+  const presence = useMemo(
+    () => presenceByField(participants, participantId),
+    [participants, participantId]
+  );
+
+  const cancelEdit = useCallback(() => {
+    if (
+      hasChanges() &&
+      !confirm('Discard your edits? They have not been shared yet.')
+    ) {
+      return;
+    }
+    discardDraft();
+    setRestoredDraft(null);
+    setEdit(false);
+  }, [hasChanges, discardDraft]);
+
+  // Transient failures are retried, and shares made while offline are sent
+  // once the connection is back.
+  const { save, progress: shareProgress } = useSaveSnapshot();
+  const share = useCallback(() => {
+    if (hasSaveRequest.current) return;
+    setSharing(true);
+
+    // Every mounted editor keeps its Slate document in the registry; the
+    // server derives the plain text from it.
+    const persistContents = getFieldDocuments();
+
+    save({
+      page: page.slug,
+      edits: persistContents,
+      // Editing while viewing a preview of this page branches from that
+      // snapshot.
+      parentId:
+        props.isPreview && props.snapshotPage === page.slug
+          ? props.snapshotId
+          : null,
+      label,
+    })
+      .then(({ snapshotId, alias, manageToken }) => {
+        // Shared edits no longer need the local copy.
+        discardDraft();
+        announceSaved(snapshotId);
+        setAlias(alias);
+        setManageToken(manageToken);
+        setSnapshotId(snapshotId);
+        setSharing(false);
+      })
+      .catch((err) => {
+        // Leaving the page cancels the share.
+        if (err.name === 'AbortError') return;
+        setError(err);
+        setSharing(false);
+      });
+  }, [save, page.slug, props, label, discardDraft, announceSaved]);
+  const retryShare = useCallback(() => {
+    setError(null);
+    share();
+  }, [share]);
+
+  // Admins may promote the snapshot they're previewing to the live page.
+  const canPublish =
+    editor?.role === 'admin' &&
+    props.isPreview &&
+    props.snapshotPage === page.slug;
+  const [publishState, setPublishState] = useState<
+    'idle' | 'publishing' | 'published'
+  >('idle');
+  const [publishError, setPublishError] = useState<string>(null);
+  const publish = useCallback(
+    (e: MouseEvent) => {
+      e.preventDefault();
+      if (!props.isPreview || publishState !== 'idle') return;
+      if (!confirm('Publish these edits to the live page for everyone?')) {
+        return;
+      }
+      setPublishState('publishing');
+      self
+        .fetch(`/api/publish/${encodeURIComponent(props.snapshotId)}`, {
+          method: 'POST',
+        })
+        .then(async (res) => {
+          if (!res.ok) {
+            const { message } = await res
+              .json()
+              .catch(() => ({ message: res.statusText }));
+            throw new Error(message);
+          }
+          setPublishState('published');
+        })
+        .catch((err) => {
+          setPublishError(err.message);
+          setPublishState('idle');
+        });
+    },
+    [props, publishState]
+  );
+
+  // Snapshots can be exported as bundles, and a bundle imported into the
+  // editors as a new draft, e.g. to move content between environments.
+  const [isExporting, setExporting] = useState(false);
+  const openExport = useCallback((e: MouseEvent) => {
+    e.preventDefault();
+    setExporting(true);
+  }, []);
+  const [isImporting, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string>(null);
+  const importFile = useCallback(
+    (file: File) => {
+      if (
+        hasChanges() &&
+        !confirm('Replace your edits with the ones from this file?')
+      ) {
+        return;
+      }
+      setImporting(true);
+      importBundle(page.slug, file)
+        .then(({ label, documents }) => {
+          documents.forEach(({ id, document }) =>
+            applyFieldDocument(id, document)
+          );
+          setLabel(label);
+        })
+        .catch((err) => setImportError(err.message))
+        .finally(() => setImporting(false));
+    },
+    [page.slug, hasChanges]
+  );
+
+  // "Show changes" highlights fields that differ from the published page.
+  const [showChanges, setShowChanges] = useState(false);
+  const toggleChanges = useCallback(
+    (e: MouseEvent) => {
+      e.preventDefault();
+      setShowChanges(!showChanges);
+    },
+    [showChanges]
+  );
+
+  // Field ids are unique (`FieldCheck` reports duplicates), so a set does.
+  const [changedIdSet, setChangedIdSet] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const trackChange = useCallback((id: string) => {
+    setChangedIdSet((ids) => new Set(ids).add(id));
+    return () =>
+      setChangedIdSet((ids) => {
+        const next = new Set(ids);
+        next.delete(id);
+        return next;
+      });
+  }, []);
+  const changedIds = Array.from(changedIdSet);
+  const isShowingChanges = props.isPreview && showChanges && !isEdit;
+  const changesContext = useMemo(
+    () => ({ showChanges: isShowingChanges, trackChange }),
+    [isShowingChanges, trackChange]
+  );
+
+  // Reviewers previewing a snapshot of this page may leave comments on its
+  // fields.
+  const canComment = props.isPreview && props.snapshotPage === page.slug;
+  const {
+    threads,
+    loadError: threadsError,
+    update: updateThreads,
+  } = useCommentThreads(props.isPreview ? props.snapshotId : null, canComment);
+  const [isCommenting, setCommenting] = useState(false);
+  const toggleCommenting = useCallback(
+    (e: MouseEvent) => {
+      e.preventDefault();
+      setCommenting(!isCommenting);
+    },
+    [isCommenting]
+  );
+  const [commentFieldId, setCommentFieldId] = useState<string>(null);
+  const commentsContext = useMemo(
+    () => ({
+      isCommenting: isCommenting && !isEdit,
+      openThreadCounts: countOpenThreads(threads),
+      selectField: setCommentFieldId,
+    }),
+    [isCommenting, isEdit, threads]
+  );
+
+  const reload = useCallback((e: MouseEvent) => {
+    e.preventDefault();
+    location.reload();
+  }, []);
+
+  const edits = useMemo(() => {
+    const contents = props.hasError === true ? [] : props.contents;
+    if (!restoredDraft) return contents;
+    const restored = restoredDraft.documents.map(({ id, document }) => ({
+      id,
+      innerText: documentToText(document),
+      document,
+    }));
+    const ids = new Set(restored.map(({ id }) => id));
+    return [...contents.filter(({ id }) => !ids.has(id)), ...restored];
+  }, [props, restoredDraft]);
+  // What "show changes" compares the fields with.
+  const published =
+    props.hasError === true
+      ? []
+      : props.isPreview
+      ? props.published
+      : props.contents;
+  return (
+    <>
+      <Head>
+        <title>
+          {page.slug === 'index'
+            ? 'Next.js | Preview Mode'
+            : `Next.js | Preview Mode | ${page.title}`}
+        </title>
+        <meta name="description" content={page.description}></meta>
+      </Head>
+      {draft && editor && !isEdit && (
+        <RestoreDraftDialog
+          savedAt={draft.savedAt}
+          onRestore={restoreDraft}
+          onDiscard={discardDraft}
+          onDismiss={dismissDraft}
+        />
+      )}
+      {currentError && (
+        <ErrorDialog
+          onExit={onClearError}
+          onRetry={
+            currentError.code === 'storage-unavailable' ? retryShare : undefined
+          }
+        >
+          <ShareErrorMessage error={currentError} />
+        </ErrorDialog>
+      )}
+      {commentFieldId && (
+        <CommentsDialog
+          fieldId={commentFieldId}
+          threads={threads}
+          loadError={threadsError}
+          editor={editor ?? null}
+          update={updateThreads}
+          onExit={() => setCommentFieldId(null)}
+        />
+      )}
+      {publishError && (
+        <ErrorDialog onExit={() => setPublishError(null)}>
+          <p>An error occurred while publishing. Please try again in a bit.</p>
+          <pre>{publishError}</pre>
+        </ErrorDialog>
+      )}
+      {importError && (
+        <ErrorDialog onExit={() => setImportError(null)}>
+          <p>That file could not be imported.</p>
+          <pre>{importError}</pre>
+        </ErrorDialog>
+      )}
+      {isExporting && props.isPreview && (
+        <ExportDialog
+          snapshotId={props.snapshotId}
+          onExit={() => setExporting(false)}
+        />
+      )}
+      {currentSnapshotId && (
+        <ShareLinkDialog
+          snapshotId={currentSnapshotId}
+          alias={currentAlias}
+          manageToken={currentManageToken}
+          onExit={clearSnapshot}
+        />
+      )}
+      <div className={layoutStyles.layout}>
+        {(props.isPreview || props.hasError) && (
+          <aside role="alert">
+            <a
+              href={`/api/exit?next=${encodeURIComponent(pagePath(page.slug))}`}
+              data-exit
+            >
+              Preview Mode
+            </a>
+            {props.isPreview && (
+              <a href={`/history/${encodeURIComponent(props.snapshotId)}`}>
+                History
+              </a>
+            )}
+            {props.isPreview && !isEdit && (
+              <a href="#" role="button" onClick={openExport}>
+                Export
+              </a>
+            )}
+            {props.isPreview && !isEdit && (
+              <a href="#" role="button" onClick={toggleChanges}>
+                {showChanges ? 'Hide changes' : 'Show changes'}
+              </a>
+            )}
+            {canComment && !isEdit && (
+              <a href="#" role="button" onClick={toggleCommenting}>
+                {isCommenting ? 'Stop commenting' : 'Comment'}
+              </a>
+            )}
+            {canPublish && !isEdit && (
+              <a href="#" role="button" onClick={publish}>
+                {publishState === 'published'
+                  ? 'Published'
+                  : publishState === 'publishing'
+                  ? 'Publishing…'
+                  : 'Publish'}
+              </a>
+            )}
+          </aside>
+        )}
+        {isShowingChanges && <ChangesPanel changedIds={changedIds} />}
+        {props.hasError ? (
+          <>
+            <h1>Oops</h1>
+            <h2>
+              {PREVIEW_ERROR_HEADINGS[props.code] ??
+                'Something unique to your preview went wrong.'}
+            </h2>
+            <div className="explanation" style={{ textAlign: 'center' }}>
+              <p>
+                The production website is <strong>still available</strong> and
+                this does not affect other users.
+              </p>
+            </div>
+            <hr />
+            <h2>Reason</h2>
+            <div className="explanation" style={{ textAlign: 'center' }}>
+              <p>{props.message}</p>
+              {props.code === 'storage-unavailable' ? (
+                <p>
+                  This is usually temporary.{' '}
+                  <a href="#" role="button" onClick={reload}>
+                    Refresh the page
+                  </a>{' '}
+                  to try again.
+                </p>
+              ) : props.code === 'not-found' ? (
+                <p>Check the link, or ask its author for a new one.</p>
+              ) : null}
+            </div>
+          </>
+        ) : (
+          <ChangesContext.Provider value={changesContext}>
+            <CommentsContext.Provider value={commentsContext}>
+              <LiveContext.Provider value={presence}>
+                <FieldCheck>
+                  {children({ isEdit, edits, published })}
+                </FieldCheck>
+              </LiveContext.Provider>
+            </CommentsContext.Provider>
+          </ChangesContext.Provider>
+        )}
+      </div>
+      {isEdit ? (
+        <>
+          <Snapshot
+            onCancel={cancelEdit}
+            onShare={share}
+            isSharing={isSharingView}
+            shareProgress={shareProgress}
+            draftStatus={draftStatus}
+            label={label}
+            onLabelChange={setLabel}
+            onImport={importFile}
+            isImporting={isImporting}
+          />
+          <LiveStatus
+            isLive={isLive}
+            isConnected={isConnected}
+            hasUnsentEdits={hasUnsentEdits}
+            participants={participants}
+            ownParticipantId={participantId}
+            onToggle={toggleLive}
+          />
+        </>
+      ) : (
+        // Editing is reserved for signed-in editors.
+        editor && <Edit onClick={startEdit} />
+      )}
+    </>
+  );
+}
+
+const PREVIEW_ERROR_HEADINGS: Partial<Record<ErrorCode, string>> = {
+  'not-found': 'This preview link leads nowhere.',
+  expired: 'This preview link is no longer available.',
+  forbidden: 'You may not view this preview.',
+  'storage-unavailable': 'Previews are unavailable right now.',
+  'too-large': 'This preview is too large to display.',
+  'rate-limited': 'Too many previews were opened in a short time.',
+};
+
+// Explains why sharing failed, and what to do about it. The edits are still
+// in the editors (and the local draft) either way.
+function ShareErrorMessage({ error }: { error: ApiError }) {
+  switch (error.code) {
+    case 'rate-limited':
+      return (
+        <p>
+          Whoa, slow down! You've shared a lot of snapshots in a short time.{' '}
+          {error.retryAfter
+            ? `Please wait ${error.retryAfter} seconds before trying again.`
+            : 'Please wait a moment before trying again.'}
+        </p>
+      );
+    case 'forbidden':
+      return (
+        <p>
+          Only signed-in editors can share edits.{' '}
+          {/* A new tab keeps the unsaved edits on this page. */}
+          <a href="/login" target="_blank" rel="noopener">
+            Sign in
+          </a>
+          , then try again.
+        </p>
+      );
+    case 'too-large':
+      return (
+        <p>
+          Your edits are too large to share. Shorten some of the fields, then
+          try again.
+        </p>
+      );
+    case 'invalid-payload':
+      return (
+        <>
+          <p>Some of your edits can't be shared. Fix them, then try again.</p>
+          <pre>{[error.message, ...(error.errors ?? [])].join('\n')}</pre>
+        </>
+      );
+    case 'storage-unavailable':
+      return (
+        <p>
+          Snapshots can't be saved right now, even after several tries. Your
+          edits are kept on this device, so try again in a bit.
+        </p>
+      );
+    default:
+      return (
+        <>
+          <p>
+            An error occurred while saving your snapshot. Please try again in a
+            bit.
+          </p>
+          <pre>{error.message}</pre>
+        </>
+      );
+  }
+}
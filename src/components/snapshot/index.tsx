@@ -1,9 +1,35 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
+import type { DraftStatus } from '../../hooks/use-draft';
+import { MAX_SAVE_ATTEMPTS, SaveProgress } from '../../hooks/use-save-snapshot';
 import CancelSvg from '../svgs/cancel';
 import ShareSvg from '../svgs/share';
 import styles from './index.module.css';
 
-export default function Cancel({ onCancel, onShare, isSharing }) {
+export default function Cancel({
+  onCancel,
+  onShare,
+  isSharing,
+  shareProgress,
+  label,
+  onLabelChange,
+  draftStatus,
+  onImport,
+  isImporting,
+}: {
+  onCancel: () => void;
+  onShare: () => void;
+  isSharing: boolean;
+  shareProgress: SaveProgress | null;
+  label: string;
+  onLabelChange: (label: string) => void;
+  draftStatus: DraftStatus;
+  // Called with a bundle file exported from a snapshot.
+  onImport: (file: File) => void;
+  isImporting: boolean;
+}) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const progress = describeProgress(shareProgress);
+
   useEffect(() => {
     function listener(e: KeyboardEvent) {
       if (e.metaKey && e.key === 'Enter') {
@@ -18,15 +44,57 @@ export default function Cancel({ onCancel, onShare, isSharing }) {
 
   return (
     <div className={styles.group}>
+      <div className={styles.meta}>
+        <button
+          type="button"
+          className={styles.import}
+          disabled={isSharing || isImporting}
+          onClick={() => fileInput.current.click()}
+        >
+          {isImporting ? 'Importing…' : 'Import'}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.md,application/json,text/markdown"
+          hidden
+          onChange={(e) => {
+            const [file] = Array.from(e.target.files);
+            // Allows importing the same file again.
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+        {draftStatus && (
+          <small role="status">
+            {draftStatus === 'saved' ? 'Saved locally' : 'Unsaved changes'}
+          </small>
+        )}
+      </div>
+      <input
+        type="text"
+        className={styles.label}
+        placeholder="Describe this revision (optional)"
+        maxLength={200}
+        value={label}
+        disabled={isSharing}
+        onChange={(e) => onLabelChange(e.target.value)}
+      />
       {!isSharing && (
         <div className={styles.cancel} onClick={onCancel}>
           <CancelSvg />
         </div>
       )}
+      {progress && (
+        <small className={styles.progress} role="status">
+          {progress}
+        </small>
+      )}
       <div
         className={`${styles.share} ${isSharing ? styles['pending-bg'] : ''}`}
         onClick={onShare}
         style={isSharing ? { pointerEvents: 'none' } : {}}
+        title={progress ?? 'Share'}
       >
         {isSharing ? (
           <div className="sk-fading-circle">
@@ -46,3 +114,18 @@ export default function Cancel({ onCancel, onShare, isSharing }) {
     </div>
   );
 }
+
+// The first attempt only shows the spinner.
+function describeProgress(progress: SaveProgress | null) {
+  if (!progress) return null;
+  switch (progress.state) {
+    case 'offline':
+      return "You're offline. Sharing once you're back online…";
+    case 'retrying':
+      return `Couldn't share. Retrying (${progress.attempt} of ${MAX_SAVE_ATTEMPTS})…`;
+    case 'sending':
+      return progress.attempt > 1
+        ? `Sharing (${progress.attempt} of ${MAX_SAVE_ATTEMPTS})…`
+        : null;
+  }
+}
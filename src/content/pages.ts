@@ -0,0 +1,361 @@
+import type { ValidElementTypes } from '../components/malleable';
+
+export type ContentField = {
+  id: string;
+  as: ValidElementTypes;
+  // Plain text; `\n` renders as a line break.
+  defaultText: string;
+  // Consecutive fields that share a card render together in one box, and
+  // consecutive cards form a row (the home page's features).
+  card?: string;
+};
+
+export type ContentPage = {
+  // Path segments joined by `/`, e.g. `guides/preview-mode`. The home page is
+  // `index`.
+  slug: string;
+  title: string;
+  description: string;
+  // In display order.
+  fields: ContentField[];
+};
+
+const indexPage: ContentPage = {
+  slug: 'index',
+  title: 'CSE Skills Assessment',
+  description:
+    "This website demonstrates a static website generated using Next.js' new Static Site Generation (SSG).",
+  fields: [
+    { id: 'title', as: 'h1', defaultText: 'CSE Skills Assessment' },
+    { id: 'feature-1-emoji', as: 'div', card: 'feature-1', defaultText: '🌸' },
+    {
+      id: 'feature-1-text',
+      as: 'h4',
+      card: 'feature-1',
+      defaultText: 'Marinette Clemente',
+    },
+    { id: 'feature-2-emoji', as: 'div', card: 'feature-2', defaultText: '✨' },
+    { id: 'feature-2-text', as: 'h4', card: 'feature-2', defaultText: '' },
+    { id: 'feature-3-emoji', as: 'div', card: 'feature-3', defaultText: '🗓' },
+    {
+      id: 'feature-3-text',
+      as: 'h4',
+      card: 'feature-3',
+      defaultText: '9th March 2024',
+    },
+    {
+      id: 'title-2',
+      as: 'h2',
+      defaultText:
+        '1. From this list, rank your 5 most favourite and 5 least favourite support tasks. Provide a brief explanation for each.',
+    },
+    {
+      id: 'explanation-1-inspect',
+      as: 'div',
+      defaultText: [
+        'Five most favourite support tasks:',
+        '',
+        '1. Write and maintain support articles and docs pages: Maintaining the support articles and docs pages is crucial for the customer support role as it promotes three important things, efficiency, sharing of knowledge, and continuous improvement.',
+        '2. Identify, file (and, where possible, resolve) bugs in private and public Vercel/Next.js repos on GitHub: Improve my technical proficiency and problem-solving skills',
+        '3. Help train and onboard new support teammates: It is a two-way kind of learning, not only the new onboarded teammates are benefitting but also the person who is doing the training as it enhances many skills',
+        '4. Work with the product team to develop a new feature based on feedback from customers: Enhance skills such as collaboration, business requirement analysis, different project management methodologies',
+        '5. Analyze hundreds of support tickets to spot trends the product team can use: Enhance understanding in various customer support requests',
+        '',
+        'Five least favourite support tasks:',
+        '',
+        '1. Manage a support team: Focus on increasing my knowledge in the technicalities',
+        '2. Respond to 50+ support requests via email every day: Having to respond quickly could be overwhelming',
+        "3. Dig through logs to troubleshoot a customer's broken project: Can be time-consuming and challenging. Most of the time it requires high-level technical expertise",
+        '4. Work with 3rd party partners to track down a tricky situation for a joint customer: the lack of direct control over external parties',
+        '5. Engage multiple users at once in a public discussion, to answer their questions and troubleshoot problems: Can be challenging to balance the needs of different users',
+      ].join('\n'),
+    },
+    {
+      id: 'title-3',
+      as: 'h2',
+      defaultText: '2. What do you want to learn or do more of at work?',
+    },
+    {
+      id: 'explanation-2-inspect',
+      as: 'div',
+      defaultText: [
+        'Technical skills',
+        '1. In the fields of modern web architecture, being involved in understanding the frontend frameworks like Next.js and React, cloud technologies, serverless computing and DNS would really be a good opportunity for me to dive in.',
+        'I have been involved working in SaaS platform and I really find it interesting on how the web architecture works.',
+        'Strengthening my technical expertise will enable me to contribute more effectively to projects and problem-solving initiatives.',
+        '',
+        'Communication Skills',
+        'I would also like to further improve my communication skills.',
+        'Continuous improvement in terms of communicating to different stakeholders is one of the crucial part of being a CSE.',
+        'This includes relaying complex ideas effectively to the team and other stakeholders.',
+      ].join('\n'),
+    },
+    {
+      id: 'title-4',
+      as: 'h2',
+      defaultText: [
+        '3. Describe how you solved a challenge or technical issue that you faced in a previous role (preferably in a previous support role).',
+        'How did you determine that your solution was successful?',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-3-inspect',
+      as: 'div',
+      defaultText: [
+        'In a previous support role, I encountered a challenge where a specific customer cannot integrate their data system into our platform',
+        "When investigated the issue, I discovered that the problem was related to absence of any API credentials on the customer's end.",
+        "The customer's platform was outdated and lacked the capability to establish API connections.",
+        '',
+        'To address the issue, I have started planning out the next steps through:',
+        '* Internal collaboration: I have explained the situation to our system engineers and asked for their recommendations on any options we can provide to the customer.',
+        'After them further investigating other methodologies for the customer, they have suggested an SFTP transfer of data instead of API connection.',
+        "* Technical Requirements gathering: I have set up a meeting with our customer's tech people along with our tech experts to discuss the potential technical requirements to pull off this option.",
+        '* Resource allocation: After the technical kick off and confirming the possibility of the solution, I have coordinated this to be signed off by our Customer Relations manager and our CTO to confirm the necessary work required for this request.',
+        '* Implementation: After defining the objectives and the resource required, I have initiated the proposal to the customer, asking for their final sign off to push through the project.',
+        '* Testing: After official sign off from the customer, and actual implementation by system engineers, we were able to pull the data throough SFTP transfer and successfully built a standard ingestion that will be a repeatable process for the customer.',
+        '',
+        "The success of the solution was determined by the on-going transfer of data that was reusable by other customers who doesn't have available API connection.",
+      ].join('\n'),
+    },
+    {
+      id: 'title-5',
+      as: 'h2',
+      defaultText: [
+        "5. Imagine a customer writes in requesting help with a build issue on a framework or technology that you've not seen before.",
+        'How would you begin troubleshooting this and what questions would you ask the customer to understand the situation better?',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-4-inspect',
+      as: 'div',
+      defaultText: [
+        'In the customer support world, there will be scenarios where we face an issue which we are unfamiliar with.',
+        "In these cases, when I encounter a customer seeking assistance with a build issue on a framework or technology that I'm unfamiliar with,",
+        'I would approach the situation systematically to gather relevant information and eventually find out a solution for troubleshooting.',
+        '',
+        'Firstly, I would conduct initial research to gain an understanding of the framework or technology.',
+        'I will look for documentations or help file that could provide insights on the specific issue, or I would read through some forums or community resources that could provide further learnings.',
+        'Tutorials or guides related will also be useful that could add to my knowledge.',
+        '',
+        'Next step would be asking the customer to provide me more context of the issue like a detailed information about the specific build issue they are encountering.',
+        'I will ask them to provide any evidence of the issue which would help me replicate it. I would request for any error messages or log issues,',
+        'if there were recent code changes in their development environment, if there are dependencies in other configurations or any other third-party vendors.',
+        '',
+        'After getting the information by the customer, I would try to explore potential solutions with the issue.',
+        'This might involve troubleshooting common issues, experimenting with different configurations or even seeking assistance on any third-party vendors that would have greater knowledge.',
+        '',
+        'Lastly, resolve or not, I will document it with my findings, steps taken, and any progress made.',
+        'This way, if the issue re-occur for another customer, there will be a documentation where other CS team members could refer to easily to resolve the issue.',
+      ].join('\n'),
+    },
+    {
+      id: 'title-6',
+      as: 'h2',
+      defaultText: [
+        '6. The customer from question 5 replies to your response with the below:',
+        '“I’m so frustrated. I’ve been trying to make this work for hours and I just can’t figure it out. It must be a platform issue so just fix it for me instead of asking me questions.”',
+        'The customer from question 5 replies to your response with the below:',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-6-inspect',
+      as: 'div',
+      defaultText: [
+        'Hi Customer,',
+        '',
+        'I completely understand your frustration and I appreciate your patience as we work through this issue together.',
+        '',
+        'I understand you would like to resolve the issue as quickly as possible,',
+        'but I would need more information to help me pinpoint the root cause of the problem and provide you with the most effective solution.',
+        '',
+        'If you could kindly share any error messages, logs, or additional details about the problem, it would greatly assist me and the team to find a solution.',
+        '',
+        'I’m also happy to jump on a call so we can address the issue more directly',
+        '',
+        'Best regards,',
+        'Marinette',
+      ].join('\n'),
+    },
+    {
+      id: 'title-7',
+      as: 'h2',
+      defaultText: [
+        '7. A customer writes in to the Helpdesk asking "How do I do a redirect from the /blog path to https://example.com?"',
+        'Please write a reply to the customer.',
+        'Feel free to add any information about your decision making process after the reply.',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-7-inspect',
+      as: 'div',
+      defaultText: [
+        'Hi Customer,',
+        '',
+        'Thank you so much for reaching out to us with your question about setting up a redirect from the "/blog" path to "https://example.com."',
+        'We appreciate your patience and understanding as we assist you with this.',
+        '',
+        'To be completely transparent, setting up a redirect from the "/blog" path is not something I have personal experience with.',
+        "However, I want to ensure you receive the best assistance as possible, so I'll be redirecting your inquiry to one of our Customer Support Engineers,",
+        'who has a solid understanding of configuring the set up for redirects.',
+        '',
+        'My colleague XXX will be able to provide you with expert guidance and support to help you achieve your expected outcome.',
+        "They will reach out to you shortly to provide the support you will need. If you have any further questions or concerns in the meantime, please don't hesitate to reach out to us.",
+        '',
+        'Thank you for your understanding and patience as we work to resolve your query.',
+        '',
+        'Best regards,',
+        'Marinette',
+        '',
+        'My approach in making the decision to redirect the inquiry to another experienced Customer Success Engineer is to achieve customer-centric approach in terms of unexplored technologies or framework.',
+        "Maintaining transparency, prioritising the urgency and the efficiency of resolving the customer's issue should be the top priority.",
+        'This decision aligns with the principle of ensuring that customers receive the most accurate and relevant assistance from the appropriate resources within the support team.',
+      ].join('\n'),
+    },
+    {
+      id: 'title-8',
+      as: 'h2',
+      defaultText: [
+        '8. A customer is creating a site and would like their project not to be indexed by search engines.',
+        'Please write a reply to the customer.',
+        'Feel free to add any information about your decision making process after the reply.',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-8-inspect',
+      as: 'div',
+      defaultText: [
+        'Hi Customer,',
+        '',
+        'Thank you for reaching out with your request regarding your website project.',
+        'If you would like to keep your project from showing up on search engines and remains private, we can implement a couple of measures:',
+        '',
+        '1. Robots.txt File: We can create and configure a "robots.txt" file for your website.',
+        'This file instructs search engines on which pages or directories should not be indexed.',
+        'We can specify rules in the robots.txt file to disallow indexing of your entire website or specific pages.',
+        '',
+        "2. Meta Tags: Another approach is to add meta tags to your website's HTML code.",
+        'To do this, we need to include the "noindex" meta tag in the head section of your HTML code.',
+        'IThis tag requests search engine bots not to index the content of the page.',
+        '',
+        "If you would like us to proceed with implementing these changes for you, please let us know, and we'll be happy to assist further.",
+        '',
+        'Best regards,',
+        'Marinette',
+        '',
+        'Through this approach I provided clear a guidance to the customer regarding their request to prevent search engines from indexing their website.',
+        'The two common approaches using a robots.txt file or adding meta tags to the HTML code can assist with making the project private to the search engines – either through specific pages or entire website.',
+        'Robot.txt file is to be used if the customer would like to control the indexing behavior of the search engines for entire sections of the website,',
+        'while meta tag to be used if the customer is after preventing specific pages from being indexed by search engines while allowing other pages on the site to be indexed.',
+        'Through this approach we allow the customer to implement a tailored solution based on their preferences.',
+      ].join('\n'),
+    },
+    {
+      id: 'title-9',
+      as: 'h2',
+      defaultText: [
+        '9. What do you think is one of the most common problems which customers ask Vercel for help with?',
+        'How would you help customers to overcome common problems, short-term and long-term?',
+      ].join('\n'),
+    },
+    {
+      id: 'explanation-9-inspect',
+      as: 'div',
+      defaultText: [
+        'One of the most common problems that customers may ask Vercel for help with is related to deployment issues or configuration errors when deploying their applications to the Vercel platform.',
+        'These issues could range from build failures, deployment errors, custom domain setup problems, understanding technical documentations and needing help and support.',
+        '',
+        'Trouble Deploying Websites: Some customers may have difficulty uploading their websites or apps to Vercel due to errors during the process.',
+        'Setting Up Custom Domains: Configuring custom domain names for their websites can be confusing for customers, leading to issues with getting their domain to work properly.',
+        'Getting Help and Support: Some customers may have trouble finding the help they need or understanding technical documentation, leading to frustration when trying to troubleshoot issues.',
+      ].join('\n'),
+    },
+    {
+      id: 'title-10',
+      as: 'h2',
+      defaultText:
+        '10. How could we improve or alter this familiarisation exercise?',
+    },
+    {
+      id: 'explanation-10-inspect',
+      as: 'div',
+      defaultText: [
+        'Provide additional resources for each task, may include but not limited to links to relevant documentation, guides, and tutorials. With more information, we will have what we need to complete the exercise effectively.',
+        '',
+        'Offer sample solutions or templates to reference, especially for tasks involving technical challenges or unfamiliar technologies (like question number 4 on Edge Network)',
+        'These additional information will serve as a helpful starting points and provide additional guidance',
+      ].join('\n'),
+    },
+    { id: 'explanation-3', as: 'p', defaultText: '' },
+    { id: 'explanation-4', as: 'p', defaultText: '' },
+  ],
+};
+
+export const pages: ContentPage[] = [
+  indexPage,
+  {
+    slug: 'about',
+    title: 'About This Demo',
+    description: 'How this site combines Static Generation and Preview Mode.',
+    fields: [
+      { id: 'title', as: 'h1', defaultText: 'About This Demo' },
+      {
+        id: 'intro',
+        as: 'p',
+        defaultText:
+          'Every page on this site is statically generated at build time and served from the edge.\nEditors can still change any field and share a preview of their edits without a redeploy.',
+      },
+      { id: 'how-title', as: 'h2', defaultText: 'How it works' },
+      {
+        id: 'how-body',
+        as: 'p',
+        defaultText:
+          'Saving your edits stores a snapshot. Opening its share link enters Preview Mode, which renders the page on demand with the snapshot applied.',
+      },
+    ],
+  },
+  {
+    slug: 'guides/preview-mode',
+    title: 'Preview Mode Guide',
+    description: 'A step-by-step guide to sharing draft edits.',
+    fields: [
+      { id: 'title', as: 'h1', defaultText: 'Preview Mode Guide' },
+      {
+        id: 'steps-title',
+        as: 'h2',
+        defaultText: 'Sharing a draft in three steps',
+      },
+      {
+        id: 'steps-body',
+        as: 'p',
+        defaultText:
+          '1. Sign in and click the edit button.\n2. Change any highlighted field.\n3. Click share and send the link to a reviewer.',
+      },
+      { id: 'exit-title', as: 'h2', defaultText: 'Leaving Preview Mode' },
+      {
+        id: 'exit-body',
+        as: 'p',
+        defaultText:
+          'Click the bar at the top of the page at any time to return to the published site.',
+      },
+    ],
+  },
+];
+
+export function getPage(slug: string): ContentPage | undefined {
+  return pages.find((page) => page.slug === slug);
+}
+
+export function pagePath(slug: string) {
+  return slug === 'index' ? '/' : `/${slug}`;
+}
+
+export function pageFieldIds(page: ContentPage): ReadonlySet<string> {
+  return new Set(page.fields.map((field) => field.id));
+}
+
+// The element each field renders as, which limits how it may be formatted.
+export function pageFieldElements(
+  page: ContentPage
+): ReadonlyMap<string, ValidElementTypes> {
+  return new Map(page.fields.map((field) => [field.id, field.as]));
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  getFieldDocuments,
+  hasFieldChanges,
+  subscribeToFieldDocuments,
+} from '../components/malleable/registry';
+import { RichDocument } from '../lib/rich-text';
+
+// Unsaved edits, kept in `localStorage` until they are shared or discarded.
+export type Draft = {
+  savedAt: string;
+  label: string;
+  documents: { id: string; document: RichDocument }[];
+};
+
+export type DraftStatus = 'saved' | 'unsaved' | null;
+
+const AUTOSAVE_DELAY = 500;
+
+function readDraft(key: string): Draft | null {
+  try {
+    const draft = JSON.parse(localStorage.getItem(key));
+    return Array.isArray(draft?.documents) ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+// Autosaves the mounted editors while `isEdit`, under a key for the page and
+// the snapshot being edited. `draft` is the one found when the page loaded,
+// until it's restored or discarded.
+export function useDraft({
+  page,
+  baseSnapshotId,
+  isEdit,
+  label,
+  isRestored,
+}: {
+  page: string;
+  // `null` when editing the live page.
+  baseSnapshotId: string | null;
+  isEdit: boolean;
+  label: string;
+  // Restored drafts count as changed even before they're edited again.
+  isRestored: boolean;
+}) {
+  const key = `draft:${page}:${baseSnapshotId ?? 'live'}`;
+
+  const [draft, setDraft] = useState<Draft>(null);
+  useEffect(() => setDraft(readDraft(key)), [key]);
+
+  const [status, setStatus] = useState<DraftStatus>(null);
+  const latest = useRef({ isEdit, label, isRestored });
+  latest.current = { isEdit, label, isRestored };
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const hasChanges = useCallback(
+    () => latest.current.isRestored || hasFieldChanges(),
+    []
+  );
+
+  const scheduleSave = useCallback(() => {
+    // Editors unmounting after a cancel must not save the draft again.
+    if (!latest.current.isEdit || !hasChanges()) return;
+    setStatus('unsaved');
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      const saved: Draft = {
+        savedAt: new Date().toISOString(),
+        label: latest.current.label,
+        documents: getFieldDocuments(),
+      };
+      try {
+        localStorage.setItem(key, JSON.stringify(saved));
+        setStatus('saved');
+      } catch {
+        // Storage may be full or disabled; the edits stay "unsaved", which
+        // the editor shows.
+      }
+    }, AUTOSAVE_DELAY);
+  }, [key, hasChanges]);
+
+  useEffect(() => {
+    if (!isEdit) return;
+    const unsubscribe = subscribeToFieldDocuments(scheduleSave);
+    return () => {
+      unsubscribe();
+      clearTimeout(timer.current);
+      setStatus(null);
+    };
+  }, [isEdit, scheduleSave]);
+  // Relabelling saves the draft too. Only the label changing does: entering
+  // edit mode or switching drafts alone leaves nothing new to save.
+  const lastLabel = useRef(label);
+  useEffect(() => {
+    if (label === lastLabel.current) return;
+    lastLabel.current = label;
+    if (isEdit) scheduleSave();
+  }, [label, isEdit, scheduleSave]);
+
+  // Forgets the saved draft, e.g. once it has been shared.
+  const discard = useCallback(() => {
+    clearTimeout(timer.current);
+    localStorage.removeItem(key);
+    setDraft(null);
+    setStatus(null);
+  }, [key]);
+
+  // Hides `draft` without removing it from storage.
+  const dismiss = useCallback(() => setDraft(null), []);
+
+  return { draft, status, hasChanges, discard, dismiss };
+}
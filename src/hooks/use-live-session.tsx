@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  applyFieldDocument,
+  clearPendingDocuments,
+  getFieldDocuments,
+  subscribeToFieldDocuments,
+} from '../components/malleable/registry';
+import type { LiveEvent, LiveParticipant } from '../lib/live';
+
+// Batches keystrokes into one update.
+const SEND_DELAY = 150;
+
+function randomId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+// Connects the mounted editors to the live session for a page and base
+// snapshot while `isEnabled`: local edits and focus are sent to the other
+// participants, and theirs are applied here.
+export function useLiveSession({
+  page,
+  baseSnapshotId,
+  isEnabled,
+  onSaved,
+}: {
+  page: string;
+  baseSnapshotId: string | null;
+  isEnabled: boolean;
+  // Called when another participant shares the session's edits.
+  onSaved: (snapshotId: string, name: string) => void;
+}) {
+  const participantId = useMemo(
+    () => (typeof window === 'undefined' ? '' : randomId()),
+    []
+  );
+  const [participants, setParticipants] = useState<LiveParticipant[]>([]);
+  const [isConnected, setConnected] = useState(false);
+  // Whether the last update of local edits failed to reach the session.
+  const [hasUnsentEdits, setUnsentEdits] = useState(false);
+
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const send = useCallback(
+    (body: object) =>
+      self
+        .fetch('/api/live', {
+          method: 'POST',
+          body: JSON.stringify({
+            page,
+            base: baseSnapshotId,
+            participantId,
+            ...body,
+          }),
+          headers: { 'content-type': 'application/json' },
+        })
+        .then((res) => {
+          if (!res.ok) throw new Error(`Live update failed (${res.status}).`);
+        }),
+    [page, baseSnapshotId, participantId]
+  );
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    // The last document of each field known to be in the session, serialized.
+    // Only fields that differ from it are sent.
+    const known = new Map<string, string>();
+    let isJoined = false;
+    let timer: ReturnType<typeof setTimeout>;
+    let focusedFieldId: string | null = null;
+
+    const flush = () => {
+      if (!isJoined) return;
+      const changed = getFieldDocuments().filter(
+        ({ id, document }) => known.get(id) !== JSON.stringify(document)
+      );
+      if (!changed.length) return;
+      changed.forEach(({ id, document }) =>
+        known.set(id, JSON.stringify(document))
+      );
+      send({ fields: changed }).then(
+        () => setUnsentEdits(false),
+        () => {
+          // Sent again with the next change.
+          changed.forEach(({ id }) => known.delete(id));
+          setUnsentEdits(true);
+        }
+      );
+    };
+    const unsubscribe = subscribeToFieldDocuments(() => {
+      clearTimeout(timer);
+      timer = setTimeout(flush, SEND_DELAY);
+    });
+
+    const params = new URLSearchParams({ page, participantId });
+    if (baseSnapshotId) params.set('base', baseSnapshotId);
+    const source = new EventSource(`/api/live?${params}`);
+    source.onmessage = (message) => {
+      const event: LiveEvent = JSON.parse(message.data);
+      switch (event.type) {
+        case 'state':
+          // Sent on every (re)connect. The session's documents win over local
+          // ones; fields it doesn't have yet are filled in from here.
+          Object.keys(event.fields).forEach((id) => {
+            known.set(id, JSON.stringify(event.fields[id].document));
+            applyFieldDocument(id, event.fields[id].document);
+          });
+          setParticipants(event.participants);
+          setConnected(true);
+          isJoined = true;
+          flush();
+          // Presence is best effort: a lost update is corrected by the next
+          // focus change.
+          if (focusedFieldId) send({ fieldId: focusedFieldId }).catch(() => {});
+          break;
+        case 'field':
+          known.set(event.fieldId, JSON.stringify(event.document));
+          if (event.participantId !== participantId) {
+            applyFieldDocument(event.fieldId, event.document);
+          }
+          break;
+        case 'presence':
+          setParticipants(event.participants);
+          break;
+        case 'saved':
+          if (event.participantId !== participantId) {
+            onSavedRef.current(event.snapshotId, event.name);
+          }
+          break;
+      }
+    };
+    // `EventSource` reconnects by itself, and gets a fresh `state` when it
+    // does.
+    source.onerror = () => {
+      isJoined = false;
+      setConnected(false);
+    };
+
+    // Presence follows focus between fields.
+    const onFocus = (e: FocusEvent) => {
+      const field = (e.target as Element).closest?.('[data-field]');
+      const fieldId = field?.getAttribute('data-field') ?? null;
+      if (fieldId === focusedFieldId) return;
+      focusedFieldId = fieldId;
+      if (isJoined) send({ fieldId }).catch(() => {});
+    };
+    document.addEventListener('focusin', onFocus);
+
+    return () => {
+      document.removeEventListener('focusin', onFocus);
+      source.close();
+      unsubscribe();
+      clearTimeout(timer);
+      clearPendingDocuments();
+      setParticipants([]);
+      setConnected(false);
+      setUnsentEdits(false);
+    };
+  }, [isEnabled, page, baseSnapshotId, participantId, send]);
+
+  // Tells the other participants which snapshot the merged edits were saved
+  // as, so they don't save them again. Best effort: at worst, they do.
+  const announceSaved = useCallback(
+    (snapshotId: string) => {
+      if (isEnabled) send({ snapshotId }).catch(() => {});
+    },
+    [isEnabled, send]
+  );
+
+  return {
+    participantId,
+    participants,
+    isConnected,
+    hasUnsentEdits,
+    announceSaved,
+  };
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, readApiError } from '../lib/errors';
+
+export type SavedSnapshot = {
+  snapshotId: string;
+  // The friendly `/s/<alias>` form of the share link.
+  alias: string;
+  manageToken: string;
+};
+
+// How a save is getting on, for the share button.
+export type SaveProgress =
+  | { state: 'sending'; attempt: number }
+  // Waiting to send `attempt` after a transient failure.
+  | { state: 'retrying'; attempt: number }
+  // Queued until the browser is back online.
+  | { state: 'offline' };
+
+export const MAX_SAVE_ATTEMPTS = 5;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 15 * 1000;
+
+// Failures that are likely to go away by themselves. Anything else needs the
+// user to change something first.
+const isTransient = ({ code }: ApiError) =>
+  code === 'storage-unavailable' || code === 'conflict';
+
+// Exponential, with jitter so clients that failed together don't all retry
+// at the same moment.
+function backoff(attempt: number) {
+  const delay = Math.min(MAX_DELAY, BASE_DELAY * 2 ** (attempt - 1));
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+function randomKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(18));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+function abortError() {
+  return new DOMException('The save was aborted.', 'AbortError');
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+}
+
+function waitUntilOnline(signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onOnline = () => resolve();
+    window.addEventListener('online', onOnline, { once: true });
+    signal.addEventListener(
+      'abort',
+      () => {
+        window.removeEventListener('online', onOnline);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+}
+
+// Saves snapshots through `/api/save`, retrying transient failures with
+// backoff. Saves made while offline wait for the connection to return. Every
+// attempt at saving the same body carries the same idempotency key, so a
+// retry never creates a second snapshot.
+//
+// `save` rejects with an `ApiError`, or an `AbortError` when the page is left
+// before the save finished.
+export function useSaveSnapshot() {
+  const [progress, setProgress] = useState<SaveProgress>(null);
+
+  // The last body that failed to save and its key, reused when the user tries
+  // again without changing anything.
+  const lastFailure = useRef<{ body: string; key: string }>(null);
+
+  const controller = useRef<AbortController>(null);
+  useEffect(() => {
+    controller.current = new AbortController();
+    return () => controller.current.abort();
+  }, []);
+
+  const save = useCallback(async (body: object): Promise<SavedSnapshot> => {
+    const { signal } = controller.current;
+    const json = JSON.stringify(body);
+    const key =
+      lastFailure.current?.body === json
+        ? lastFailure.current.key
+        : randomKey();
+
+    try {
+      for (let attempt = 1; ; ) {
+        if (!navigator.onLine) {
+          setProgress({ state: 'offline' });
+          await waitUntilOnline(signal);
+        }
+
+        setProgress({ state: 'sending', attempt });
+        let error: ApiError;
+        try {
+          const res = await self.fetch('/api/save', {
+            method: 'POST',
+            body: json,
+            headers: {
+              'content-type': 'application/json',
+              'Idempotency-Key': key,
+            },
+            signal,
+          });
+          if (res.ok) {
+            lastFailure.current = null;
+            return await res.json();
+          }
+          error = await readApiError(res);
+        } catch (err) {
+          if (signal.aborted) throw err;
+          // Lost the connection mid-request: send it again once it's back,
+          // without counting this attempt.
+          if (!navigator.onLine) continue;
+          error = { code: 'storage-unavailable', message: err.message };
+        }
+
+        if (!isTransient(error) || attempt === MAX_SAVE_ATTEMPTS) {
+          lastFailure.current = { body: json, key };
+          throw error;
+        }
+        attempt++;
+        setProgress({ state: 'retrying', attempt });
+        await wait(
+          error.retryAfter ? error.retryAfter * 1000 : backoff(attempt - 1),
+          signal
+        );
+      }
+    } finally {
+      if (!signal.aborted) setProgress(null);
+    }
+  }, []);
+
+  return { save, progress };
+}
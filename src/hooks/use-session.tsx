@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { EditorUser } from '../lib/auth';
+
+// Fetches the signed-in editor on the client. `undefined` while loading,
+// `null` when signed out.
+export function useSession() {
+  const [editor, setEditor] = useState<EditorUser | null>(undefined);
+
+  useEffect(() => {
+    let isCancelled = false;
+    self
+      .fetch('/api/auth/me', { credentials: 'same-origin' })
+      .then((res) => (res.ok ? res.json() : { editor: null }))
+      .catch(() => ({ editor: null }))
+      .then(({ editor }) => {
+        if (!isCancelled) setEditor(editor);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return editor;
+}
@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendError } from '../errors';
+import { createLocalUserStore, parseLocalEditors } from './local-user-store';
+import { readSessionCookie } from './session';
+import { EditorUser, UserStore } from './types';
+
+export type { EditorUser, EditorRole, UserStore } from './types';
+export {
+  clearSessionCookie,
+  readSessionCookie,
+  readSessionStart,
+  setSessionCookie,
+} from './session';
+
+let userStore: UserStore;
+
+// Returns the user store selected by the `AUTH_PROVIDER` environment
+// variable. Only `local` (backed by `LOCAL_EDITORS`) ships with this demo;
+// plug in a real identity provider by adding another case.
+export function getUserStore(): UserStore {
+  if (userStore) return userStore;
+
+  const provider = process.env.AUTH_PROVIDER || 'local';
+  switch (provider) {
+    case 'local':
+      userStore = createLocalUserStore(
+        parseLocalEditors(
+          process.env.LOCAL_EDITORS ??
+            // A well-known account for trying the demo locally. It has to be
+            // asked for, so no deployment gets it by accident.
+            (process.env.LOCAL_DEMO_EDITOR === '1' ? 'editor:editor:admin' : '')
+        )
+      );
+      break;
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER: ${provider}`);
+  }
+  return userStore;
+}
+
+// Resolves the signed-in editor for an API request, if any.
+export async function getSessionEditor(
+  req: Pick<NextApiRequest, 'cookies'>
+): Promise<EditorUser | null> {
+  const editorId = readSessionCookie(req);
+  return editorId ? getUserStore().getEditor(editorId) : null;
+}
+
+// Resolves the signed-in admin for an API request. Otherwise responds with 401
+// or 403 and resolves to `null`, and the caller should stop.
+export async function requireAdmin(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<EditorUser | null> {
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    sendError(
+      res,
+      { code: 'forbidden', message: 'You must be signed in.' },
+      401
+    );
+  } else if (editor.role !== 'admin') {
+    sendError(res, { code: 'forbidden', message: 'Only admins may do that.' });
+  } else {
+    return editor;
+  }
+  return null;
+}
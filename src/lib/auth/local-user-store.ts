@@ -0,0 +1,52 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { EditorUser, EditorRole, UserStore } from './types';
+
+type LocalAccount = EditorUser & { password: string };
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Parses `LOCAL_EDITORS`, a comma-separated list of
+// `username:password[:role]` entries, e.g. `alice:hunter2:admin,bob:s3cret`.
+export function parseLocalEditors(config: string): LocalAccount[] {
+  return config
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [id, password, role = 'editor'] = entry.split(':');
+      if (!id || !password || (role !== 'editor' && role !== 'admin')) {
+        throw new Error(`Invalid LOCAL_EDITORS entry: "${entry}"`);
+      }
+      return { id, name: id, role: role as EditorRole, password };
+    });
+}
+
+// A development stand-in for a real user directory. Passwords live in the
+// environment in plain text, so never use this in production.
+export function createLocalUserStore(accounts: LocalAccount[]): UserStore {
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  const toEditor = ({ id, name, role }: LocalAccount): EditorUser => ({
+    id,
+    name,
+    role,
+  });
+
+  return {
+    async authenticate(username, password) {
+      const account = byId.get(username);
+      // Compare digests so the comparison is constant-time regardless of
+      // password length.
+      if (
+        !account ||
+        !timingSafeEqual(digest(password), digest(account.password))
+      ) {
+        return null;
+      }
+      return toEditor(account);
+    },
+    async getEditor(id) {
+      const account = byId.get(id);
+      return account ? toEditor(account) : null;
+    },
+  };
+}
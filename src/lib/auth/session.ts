@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export const SESSION_COOKIE = 'editor_session';
+
+const MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+type SessionPayload = { editorId: string; expiresAt: number };
+
+// Short link signatures (lib/share-links.ts) and the manage tokens kept for
+// retried saves (lib/idempotency.ts) use keys derived from it.
+export function getSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production.');
+  }
+  return 'development-only-auth-secret';
+}
+
+const sign = (value: string) =>
+  createHmac('sha256', getSecret()).update(value).digest('base64url');
+
+// Serializes as `<base64url payload>.<base64url HMAC>`.
+export function encodeSession(editorId: string, now = Date.now()) {
+  const payload: SessionPayload = {
+    editorId,
+    expiresAt: now + MAX_AGE_SECONDS * 1000,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function decodePayload(cookie: string, now: number): SessionPayload | null {
+  const [encoded, signature] = (cookie || '').split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString()
+    );
+    if (typeof payload.editorId !== 'string' || payload.expiresAt <= now) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Returns the editor id from a valid, unexpired session cookie.
+export function decodeSession(cookie: string, now = Date.now()) {
+  return decodePayload(cookie, now)?.editorId ?? null;
+}
+
+function serializeCookie(value: string, maxAge: number) {
+  return [
+    `${SESSION_COOKIE}=${value}`,
+    'Path=/',
+    `Max-Age=${maxAge}`,
+    'HttpOnly',
+    'SameSite=Lax',
+    process.env.NODE_ENV === 'production' && 'Secure',
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+export function setSessionCookie(res: NextApiResponse, editorId: string) {
+  res.setHeader(
+    'Set-Cookie',
+    serializeCookie(encodeSession(editorId), MAX_AGE_SECONDS)
+  );
+}
+
+export function clearSessionCookie(res: NextApiResponse) {
+  res.setHeader('Set-Cookie', serializeCookie('', 0));
+}
+
+export function readSessionCookie(req: Pick<NextApiRequest, 'cookies'>) {
+  return decodeSession(req.cookies[SESSION_COOKIE]);
+}
+
+// When the session in a request's cookie was started, in milliseconds since
+// the epoch, or `null` without a valid session.
+export function readSessionStart(req: Pick<NextApiRequest, 'cookies'>) {
+  const payload = decodePayload(req.cookies[SESSION_COOKIE], Date.now());
+  return payload ? payload.expiresAt - MAX_AGE_SECONDS * 1000 : null;
+}
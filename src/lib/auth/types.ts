@@ -0,0 +1,16 @@
+export type EditorRole = 'editor' | 'admin';
+
+export type EditorUser = {
+  id: string;
+  name: string;
+  // Admins can do everything editors can.
+  role: EditorRole;
+};
+
+// Where editor accounts come from. The local store stands in for a real
+// identity provider during development.
+export interface UserStore {
+  // Resolves to `null` when the credentials don't match an account.
+  authenticate(username: string, password: string): Promise<EditorUser | null>;
+  getEditor(id: string): Promise<EditorUser | null>;
+}
@@ -0,0 +1,228 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SnapshotAuthor } from './snapshot';
+import { getSnapshotStore } from './snapshot-store';
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_NAME_LENGTH = 80;
+// Keeps a single snapshot's comment object from growing without bound.
+export const MAX_COMMENTS_PER_SNAPSHOT = 500;
+
+export type CommentAuthor = {
+  // The editor's id when signed in, `null` for reviewers following a share
+  // link, who only give a name.
+  id: string | null;
+  name: string;
+};
+
+export type Comment = {
+  id: string;
+  author: CommentAuthor;
+  body: string;
+  createdAt: string;
+};
+
+// A conversation anchored to one field of a snapshot.
+export type CommentThread = {
+  id: string;
+  fieldId: string;
+  // The first comment starts the thread; the rest are replies.
+  comments: Comment[];
+  resolved: boolean;
+  // Identifies a reviewer without an account who started the thread (see
+  // `getReviewerKey`); `null` when an editor did. Never sent to clients.
+  starterKey?: string | null;
+};
+
+// A thread as sent to a client.
+export type CommentThreadView = Omit<CommentThread, 'starterKey'> & {
+  // Whether the client may resolve or reopen it.
+  canResolve: boolean;
+};
+
+export type CommentViewer = {
+  editor: SnapshotAuthor | null;
+  reviewerKey: string | null;
+};
+
+const store = () => getSnapshotStore('comments');
+
+const newId = () => randomBytes(9).toString('base64url');
+
+// Reviewers without an account are recognised by a random cookie, so they can
+// resolve the threads they started. Threads only store its hash.
+const REVIEWER_COOKIE = 'comment_reviewer';
+const REVIEWER_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('base64url');
+
+export function getReviewerKey(req: Pick<NextApiRequest, 'cookies'>) {
+  const token = req.cookies[REVIEWER_COOKIE];
+  return token ? hashToken(token) : null;
+}
+
+// Sets the reviewer cookie unless the request already has one.
+export function ensureReviewerKey(req: NextApiRequest, res: NextApiResponse) {
+  const key = getReviewerKey(req);
+  if (key) return key;
+  const token = randomBytes(18).toString('base64url');
+  res.setHeader(
+    'Set-Cookie',
+    [
+      `${REVIEWER_COOKIE}=${token}`,
+      'Path=/api/comments',
+      `Max-Age=${REVIEWER_MAX_AGE_SECONDS}`,
+      'HttpOnly',
+      'SameSite=Lax',
+      process.env.NODE_ENV === 'production' && 'Secure',
+    ]
+      .filter(Boolean)
+      .join('; ')
+  );
+  return hashToken(token);
+}
+
+// Editors may resolve any thread; reviewers only the ones they started.
+export function canResolveThread(
+  { starterKey }: CommentThread,
+  { editor, reviewerKey }: CommentViewer
+) {
+  return !!editor || (!!starterKey && starterKey === reviewerKey);
+}
+
+export function viewThreads(
+  threads: CommentThread[],
+  viewer: CommentViewer
+): CommentThreadView[] {
+  return threads.map(({ starterKey, ...thread }) => ({
+    ...thread,
+    canResolve: canResolveThread({ ...thread, starterKey }, viewer),
+  }));
+}
+
+// Snapshots without comments have none stored.
+export async function getThreads(snapshotId: string): Promise<CommentThread[]> {
+  return (await store().get<CommentThread[]>(snapshotId)) ?? [];
+}
+
+// Stores a change to a snapshot's threads. This is a read-modify-write, so a
+// comment posted at the very same moment as another may be lost; comments are
+// low-traffic enough for that to be acceptable here.
+async function updateThreads(
+  snapshotId: string,
+  update: (threads: CommentThread[]) => CommentThread[]
+) {
+  const threads = update(await getThreads(snapshotId));
+  await store().put(snapshotId, threads);
+  return threads;
+}
+
+function countComments(threads: CommentThread[]) {
+  return threads.reduce((count, { comments }) => count + comments.length, 0);
+}
+
+type CommentInput = { body: string; author: CommentAuthor };
+
+// Validates a new comment. Signed-in editors comment under their own name;
+// everybody else has to supply one.
+export function validateComment(
+  body: unknown,
+  editor: SnapshotAuthor | null
+): { ok: true; input: CommentInput } | { ok: false; errors: string[] } {
+  const { body: text, name } = (body ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const trimmed = typeof text === 'string' ? text.trim() : '';
+  if (!trimmed) {
+    errors.push('body: expected a comment.');
+  } else if (trimmed.length > MAX_COMMENT_LENGTH) {
+    errors.push(`body: exceeds ${MAX_COMMENT_LENGTH} characters.`);
+  }
+
+  let author: CommentAuthor = editor && { id: editor.id, name: editor.name };
+  if (!author) {
+    const displayName =
+      typeof name === 'string' ? name.replace(/\s+/g, ' ').trim() : '';
+    if (!displayName) {
+      errors.push('name: expected your name.');
+    } else if (displayName.length > MAX_NAME_LENGTH) {
+      errors.push(`name: exceeds ${MAX_NAME_LENGTH} characters.`);
+    }
+    author = { id: null, name: displayName };
+  }
+
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, input: { body: trimmed, author } };
+}
+
+function createComment({ body, author }: CommentInput, now: Date): Comment {
+  return { id: newId(), author, body, createdAt: now.toISOString() };
+}
+
+// Resolves to `null` when the snapshot already has too many comments.
+export async function addThread(
+  snapshotId: string,
+  fieldId: string,
+  input: CommentInput,
+  starterKey: string | null,
+  now: Date = new Date()
+): Promise<CommentThread[] | null> {
+  let isFull = false;
+  const threads = await updateThreads(snapshotId, (threads) => {
+    isFull = countComments(threads) >= MAX_COMMENTS_PER_SNAPSHOT;
+    if (isFull) return threads;
+    return [
+      ...threads,
+      {
+        id: newId(),
+        fieldId,
+        comments: [createComment(input, now)],
+        resolved: false,
+        starterKey,
+      },
+    ];
+  });
+  return isFull ? null : threads;
+}
+
+// Resolves to `null` when there's no such thread or the snapshot already has
+// too many comments.
+export async function addReply(
+  snapshotId: string,
+  threadId: string,
+  input: CommentInput,
+  now: Date = new Date()
+): Promise<CommentThread[] | null> {
+  let isAdded = false;
+  const threads = await updateThreads(snapshotId, (threads) => {
+    if (countComments(threads) >= MAX_COMMENTS_PER_SNAPSHOT) return threads;
+    return threads.map((thread) => {
+      if (thread.id !== threadId) return thread;
+      isAdded = true;
+      return {
+        ...thread,
+        comments: [...thread.comments, createComment(input, now)],
+      };
+    });
+  });
+  return isAdded ? threads : null;
+}
+
+// Resolves to `null` when there's no such thread.
+export async function setThreadResolved(
+  snapshotId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<CommentThread[] | null> {
+  let isFound = false;
+  const threads = await updateThreads(snapshotId, (threads) =>
+    threads.map((thread) => {
+      if (thread.id !== threadId) return thread;
+      isFound = true;
+      return { ...thread, resolved };
+    })
+  );
+  return isFound ? threads : null;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, normalizeText } from './diff';
+
+describe('diffWords', () => {
+  it('marks replaced words between unchanged ones', () => {
+    expect(diffWords('the quick brown fox', 'the slow brown fox')).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'delete', value: 'quick' },
+      { type: 'insert', value: 'slow' },
+      { type: 'equal', value: ' brown fox' },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffWords('', 'new')).toEqual([{ type: 'insert', value: 'new' }]);
+    expect(diffWords('old', '')).toEqual([{ type: 'delete', value: 'old' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('finds a small change in a long field quickly', () => {
+    const words = Array.from({ length: 5000 }, (_, i) => `w${i}`);
+    const before = words.join(' ');
+    const after = before.replace('w2500', 'changed');
+
+    const start = Date.now();
+    const parts = diffWords(before, after);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(parts.map(({ type }) => type)).toEqual([
+      'equal',
+      'delete',
+      'insert',
+      'equal',
+    ]);
+  });
+
+  it('shows a large rewrite as replaced, keeping the common ends', () => {
+    const rewrite = (prefix: string) =>
+      Array.from({ length: 1000 }, (_, i) => `${prefix}${i}`).join(' ');
+    const parts = diffWords(
+      `intro ${rewrite('a')} outro`,
+      `intro ${rewrite('b')} outro`
+    );
+    expect(parts).toEqual([
+      { type: 'equal', value: 'intro ' },
+      { type: 'delete', value: rewrite('a') },
+      { type: 'insert', value: rewrite('b') },
+      { type: 'equal', value: ' outro' },
+    ]);
+  });
+});
+
+describe('normalizeText', () => {
+  it('collapses whitespace within lines and runs of blank lines', () => {
+    expect(normalizeText('  a   b \r\n\n\n\n c\t')).toBe('a b\n\nc');
+  });
+});
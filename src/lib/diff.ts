@@ -0,0 +1,99 @@
+export type DiffPart = {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+};
+
+// The LCS table needs a cell per pair of tokens left over once the common
+// prefix and suffix are trimmed. Beyond this many, we fall back to showing
+// that middle part as replaced.
+const MAX_CELLS = 500 * 500;
+
+// Collapses insignificant whitespace so that text extracted from JSX and text
+// read back from the DOM (`innerText`) compare equal when nothing changed.
+export function normalizeText(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function tokenize(text: string) {
+  // Words and the whitespace between them are separate tokens, so whitespace
+  // changes don't swallow neighbouring words.
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function push(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+// Computes a word-level diff from `before` to `after` using the longest common
+// subsequence of tokens.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  // Edits usually touch a small part of a field, so only the tokens between
+  // the common prefix and suffix need the LCS table.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    push(parts, 'equal', a[start++]);
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const suffix = a.slice(endA).join('');
+
+  if (midA.length * midB.length > MAX_CELLS) {
+    if (midA.length) push(parts, 'delete', midA.join(''));
+    if (midB.length) push(parts, 'insert', midB.join(''));
+    if (suffix) push(parts, 'equal', suffix);
+    return parts;
+  }
+
+  // lcs[i][j] is the LCS length of midA[i..] and midB[j..].
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+    new Array(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      push(parts, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(parts, 'delete', midA[i++]);
+    } else {
+      push(parts, 'insert', midB[j++]);
+    }
+  }
+  while (i < midA.length) push(parts, 'delete', midA[i++]);
+  while (j < midB.length) push(parts, 'insert', midB[j++]);
+  if (suffix) push(parts, 'equal', suffix);
+
+  return parts;
+}
@@ -0,0 +1,84 @@
+import type { NextApiResponse } from 'next';
+
+// Why loading or saving a snapshot failed. APIs answer with an `ApiError`
+// body, and pages carry the code in their `hasError` props, so each failure
+// can be explained on its own terms.
+export type ErrorCode =
+  | 'not-found'
+  | 'expired'
+  | 'forbidden'
+  | 'storage-unavailable'
+  | 'invalid-payload'
+  | 'too-large'
+  | 'rate-limited'
+  | 'conflict'
+  | 'method-not-allowed';
+
+export type ApiError = {
+  code: ErrorCode;
+  message: string;
+  // What's wrong with an invalid payload, one entry per problem.
+  errors?: string[];
+  // Seconds until a rate-limited or conflicting request may be retried.
+  retryAfter?: number;
+};
+
+// The status each code is sent with, unless the caller picks another one
+// (`forbidden` is a 401 when nobody is signed in).
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  'not-found': 404,
+  expired: 410,
+  forbidden: 403,
+  'storage-unavailable': 503,
+  'invalid-payload': 400,
+  'too-large': 413,
+  'rate-limited': 429,
+  conflict: 409,
+  'method-not-allowed': 405,
+};
+
+export function sendError(
+  res: NextApiResponse,
+  error: ApiError,
+  status: number = ERROR_STATUS[error.code]
+) {
+  res.status(status).json(error);
+  res.end();
+}
+
+function errorCodeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 401:
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not-found';
+    case 410:
+      return 'expired';
+    case 413:
+      return 'too-large';
+    case 405:
+      return 'method-not-allowed';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate-limited';
+  }
+  return status >= 500 ? 'storage-unavailable' : 'invalid-payload';
+}
+
+// Reads the error from a failed API response. Responses that never reached
+// an API route, like Next.js rejecting an oversized body or a proxy timing
+// out, get a code from their status instead.
+export async function readApiError(res: Response): Promise<ApiError> {
+  const text = await res.text();
+  try {
+    const error = JSON.parse(text);
+    if (ERROR_STATUS.hasOwnProperty(error?.code)) return error;
+  } catch {}
+  return {
+    code: errorCodeForStatus(res.status),
+    message: text || res.statusText,
+    retryAfter: Number(res.headers.get('Retry-After')) || undefined,
+  };
+}
@@ -0,0 +1,102 @@
+import { createHash, randomBytes } from 'crypto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { claimIdempotencyKey, isValidIdempotencyKey } from './idempotency';
+import { getSnapshotStore } from './snapshot-store';
+
+const newKey = () => randomBytes(16).toString('base64url');
+const body = { page: 'index', edits: [] };
+const saved = {
+  snapshotId: 'snapshot-1',
+  alias: 'alias-1',
+  manageToken: 'manage-token-1',
+};
+
+describe('claimIdempotencyKey', () => {
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('lets the first request save and answers retries with its result', async () => {
+    const key = newKey();
+    const claim = await claimIdempotencyKey('alice', key, body);
+    expect(claim.status).toBe('new');
+    expect(await claimIdempotencyKey('alice', key, body)).toEqual({
+      status: 'pending',
+    });
+
+    if (claim.status === 'new') await claim.complete(saved);
+    expect(await claimIdempotencyKey('alice', key, body)).toEqual({
+      status: 'done',
+      ...saved,
+    });
+  });
+
+  it('keeps the manage token encrypted', async () => {
+    const key = newKey();
+    const claim = await claimIdempotencyKey('alice', key, body);
+    if (claim.status === 'new') await claim.complete(saved);
+
+    const id = createHash('sha256').update(`alice:${key}`).digest('base64url');
+    const record = await getSnapshotStore('idempotency').get(id);
+    expect(JSON.stringify(record)).not.toContain(saved.manageToken);
+  });
+
+  it('answers without a manage token once it cannot be decrypted', async () => {
+    const key = newKey();
+    const claim = await claimIdempotencyKey('alice', key, body);
+    if (claim.status === 'new') await claim.complete(saved);
+
+    process.env.AUTH_SECRET = 'another secret';
+    expect(await claimIdempotencyKey('alice', key, body)).toEqual({
+      status: 'done',
+      ...saved,
+      manageToken: null,
+    });
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    const key = newKey();
+    await claimIdempotencyKey('alice', key, body);
+    expect(
+      await claimIdempotencyKey('alice', key, { ...body, label: 'x' })
+    ).toEqual({ status: 'mismatch' });
+  });
+
+  it('scopes keys to the editor', async () => {
+    const key = newKey();
+    await claimIdempotencyKey('alice', key, body);
+    expect((await claimIdempotencyKey('bob', key, body)).status).toBe('new');
+  });
+
+  it('frees released and abandoned keys', async () => {
+    const key = newKey();
+    const claim = await claimIdempotencyKey('alice', key, body);
+    if (claim.status === 'new') await claim.release();
+    expect((await claimIdempotencyKey('alice', key, body)).status).toBe('new');
+
+    const later = new Date(Date.now() + 2 * 60 * 1000);
+    expect((await claimIdempotencyKey('alice', key, body, later)).status).toBe(
+      'new'
+    );
+  });
+
+  it('forgets completed saves after a day', async () => {
+    const key = newKey();
+    const claim = await claimIdempotencyKey('alice', key, body);
+    if (claim.status === 'new') await claim.complete(saved);
+
+    const nextDay = new Date(Date.now() + 25 * 60 * 60 * 1000);
+    expect(
+      (await claimIdempotencyKey('alice', key, body, nextDay)).status
+    ).toBe('new');
+  });
+});
+
+describe('isValidIdempotencyKey', () => {
+  it('accepts long url-safe keys only', () => {
+    expect(isValidIdempotencyKey(newKey())).toBe(true);
+    expect(isValidIdempotencyKey('short')).toBe(false);
+    expect(isValidIdempotencyKey('a'.repeat(20) + '/')).toBe(false);
+    expect(isValidIdempotencyKey(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+import { getSecret } from './auth/session';
+import { getSnapshotStore } from './snapshot-store';
+
+// Clients send a random key with each save and reuse it when retrying, so a
+// retry of a save that went through (but whose response was lost) returns
+// the same snapshot instead of creating another one.
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keys are only honored for a day; after that, a reused key saves anew.
+const KEY_TTL = 24 * 60 * 60 * 1000;
+// A save that hasn't finished by now has failed without releasing its key,
+// e.g. because the server restarted mid-request.
+const PENDING_TIMEOUT = 60 * 1000;
+
+type IdempotencyRecord = {
+  // Hash of the request body, so a key can't be reused for other edits.
+  fingerprint: string;
+  startedAt: string;
+  // Set once the save has succeeded.
+  snapshotId?: string;
+  alias?: string;
+  // The manage token handed out with the snapshot, encrypted (see `seal`).
+  manageToken?: string;
+};
+
+// What a save answers with, and a retry answers with again.
+export type SavedSnapshot = {
+  snapshotId: string;
+  alias: string;
+  manageToken: string;
+};
+
+export type IdempotencyClaim =
+  // The first request with this key, which should save and then call
+  // `complete`, or `release` if it fails.
+  | {
+      status: 'new';
+      complete: (result: SavedSnapshot) => Promise<void>;
+      release: () => Promise<void>;
+    }
+  // An earlier request with this key saved these. `manageToken` is `null`
+  // when it can no longer be decrypted, e.g. after `AUTH_SECRET` changed.
+  | ({ status: 'done' } & Omit<SavedSnapshot, 'manageToken'> & {
+        manageToken: string | null;
+      })
+  // An earlier request with this key is still saving.
+  | { status: 'pending' }
+  // The key was used for a different request.
+  | { status: 'mismatch' };
+
+const store = () => getSnapshotStore('idempotency');
+
+const hash = (value: string) =>
+  createHash('sha256').update(value).digest('base64url');
+
+// Manage tokens are secrets, so records only keep them encrypted, with a key
+// derived from the session secret and bound to the record they're stored in.
+const encryptionKey = () =>
+  createHmac('sha256', getSecret()).update('idempotency').digest();
+
+// `<iv>.<ciphertext>.<tag>`, each base64url-encoded.
+function seal(token: string, id: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(id));
+  const ciphertext = Buffer.concat([cipher.update(token), cipher.final()]);
+  return [iv, ciphertext, cipher.getAuthTag()]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+function unseal(sealed: string | undefined, id: string): string | null {
+  const [iv, ciphertext, tag] = (sealed ?? '')
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  if (!ciphertext || !tag) return null;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAAD(Buffer.from(id));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString();
+  } catch {
+    return null;
+  }
+}
+
+export function isValidIdempotencyKey(key: unknown): key is string {
+  return typeof key === 'string' && /^[A-Za-z0-9_-]{16,128}$/.test(key);
+}
+
+// Claims `key` for a save by `editorId`. Keys are scoped to the editor, so
+// one editor can't replay another's save.
+export async function claimIdempotencyKey(
+  editorId: string,
+  key: string,
+  body: unknown,
+  now: Date = new Date()
+): Promise<IdempotencyClaim> {
+  const id = hash(`${editorId}:${key}`);
+  const record: IdempotencyRecord = {
+    fingerprint: hash(JSON.stringify(body ?? null)),
+    startedAt: now.toISOString(),
+  };
+  const claim: IdempotencyClaim = {
+    status: 'new',
+    complete: ({ snapshotId, alias, manageToken }) =>
+      store().put(id, {
+        ...record,
+        snapshotId,
+        alias,
+        manageToken: seal(manageToken, id),
+      }),
+    release: () => store().delete(id),
+  };
+  if (await store().create(id, record)) return claim;
+
+  const existing = await store().get<IdempotencyRecord>(id);
+  const age = existing ? now.getTime() - Date.parse(existing.startedAt) : 0;
+  const isStale = existing?.snapshotId ? age > KEY_TTL : age > PENDING_TIMEOUT;
+  // Take over keys that were released or abandoned in the meantime.
+  if (!existing || isStale) {
+    await store().put(id, record);
+    return claim;
+  }
+  if (existing.fingerprint !== record.fingerprint)
+    return { status: 'mismatch' };
+  if (!existing.snapshotId) return { status: 'pending' };
+  return {
+    status: 'done',
+    snapshotId: existing.snapshotId,
+    alias: existing.alias,
+    manageToken: unseal(existing.manageToken, id),
+  };
+}
@@ -0,0 +1,28 @@
+import { createMemoryLiveRelay } from './memory';
+import { LiveRelay } from './types';
+
+export type {
+  LiveEvent,
+  LiveField,
+  LiveParticipant,
+  LiveRelay,
+  LiveSessionState,
+} from './types';
+export { createMemoryLiveRelay };
+
+let relay: LiveRelay = createMemoryLiveRelay();
+
+export function getLiveRelay() {
+  return relay;
+}
+
+// Swaps in a shared relay so sessions span server instances.
+export function setLiveRelay(sharedRelay: LiveRelay) {
+  relay = sharedRelay;
+}
+
+// Everyone editing the same page from the same snapshot (or the live page)
+// shares a session.
+export function liveSessionId(page: string, baseSnapshotId: string | null) {
+  return `${page}:${baseSnapshotId ?? 'live'}`;
+}
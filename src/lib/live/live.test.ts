@@ -0,0 +1,202 @@
+import { createServer, Server } from 'http';
+import type { AddressInfo, Socket } from 'net';
+import { apiResolver } from 'next/dist/server/api-utils/node';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from 'vitest';
+import {
+  createMemoryLiveRelay,
+  getLiveRelay,
+  LiveEvent,
+  setLiveRelay,
+} from '.';
+import * as liveRoute from '../../pages/api/live';
+import { encodeSession, SESSION_COOKIE } from '../auth/session';
+import { RichDocument } from '../rich-text';
+
+// Read lazily, on the first request.
+process.env.LOCAL_EDITORS = 'alice:alice,bob:bob';
+
+const PREVIEW_PROPS = {
+  previewModeId: 'test',
+  previewModeEncryptionKey: 'test',
+  previewModeSigningKey: 'test',
+};
+
+const paragraph = (text: string): RichDocument => [
+  { type: 'paragraph', children: [{ text }] },
+];
+
+// Serves `api/live` the way Next.js does, on a random local port.
+let server: Server;
+let origin: string;
+const sockets = new Set<Socket>();
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const { searchParams } = new URL(req.url, 'http://localhost');
+    apiResolver(
+      req,
+      res,
+      Object.fromEntries(searchParams),
+      liveRoute,
+      PREVIEW_PROPS,
+      false
+    );
+  });
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+afterAll(async () => {
+  // Event streams and kept-alive connections would hold the server open.
+  sockets.forEach((socket) => socket.destroy());
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const headersFor = (editorId: string) => ({
+  cookie: `${SESSION_COOKIE}=${encodeSession(editorId)}`,
+});
+
+// Joins the home page's live session and reads its event stream.
+const streams: AbortController[] = [];
+async function join(editorId: string, participantId: string) {
+  const controller = new AbortController();
+  streams.push(controller);
+  const res = await fetch(
+    `${origin}/api/live?page=index&participantId=${participantId}`,
+    { headers: headersFor(editorId), signal: controller.signal }
+  );
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return {
+    async next(): Promise<LiveEvent> {
+      for (;;) {
+        const end = buffer.indexOf('\n\n');
+        if (end !== -1) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (message.startsWith('data: ')) {
+            return JSON.parse(message.slice('data: '.length));
+          }
+          continue;
+        }
+        const { value } = await reader.read();
+        buffer += decoder.decode(value, { stream: true });
+      }
+    },
+  };
+}
+
+function send(editorId: string, body: object) {
+  return fetch(`${origin}/api/live`, {
+    method: 'POST',
+    headers: { ...headersFor(editorId), 'content-type': 'application/json' },
+    body: JSON.stringify({ page: 'index', ...body }),
+  });
+}
+
+const editTitle = (editorId: string, participantId: string, text: string) =>
+  send(editorId, {
+    participantId,
+    fields: [{ id: 'title', document: paragraph(text) }],
+  });
+
+describe('api/live', () => {
+  beforeEach(() => setLiveRelay(createMemoryLiveRelay(new Map())));
+  afterEach(() => {
+    streams.splice(0).forEach((controller) => controller.abort());
+  });
+
+  it('requires a signed-in editor', async () => {
+    const res = await fetch(`${origin}/api/live?page=index&participantId=a`);
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects changes from participants that never joined', async () => {
+    const res = await editTitle('alice', 'ghost', 'Hi');
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ code: 'conflict' });
+  });
+
+  it("rejects changes made as another editor's participant", async () => {
+    const alice = await join('alice', 'tab-a');
+    expect((await alice.next()).type).toBe('presence');
+
+    const res = await editTitle('bob', 'tab-a', 'Not yours');
+    expect(res.status).toBe(409);
+  });
+
+  it('rejects fields the page does not have', async () => {
+    const alice = await join('alice', 'tab-a');
+    await alice.next();
+
+    const res = await send('alice', {
+      participantId: 'tab-a',
+      fields: [{ id: 'nope', document: paragraph('x') }],
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      errors: ['fields[0].id: unknown field.'],
+    });
+  });
+
+  it('merges concurrent edits to a field last-writer-wins', async () => {
+    const alice = await join('alice', 'tab-a');
+    const bob = await join('bob', 'tab-b');
+
+    expect((await editTitle('alice', 'tab-a', 'From Alice')).status).toBe(204);
+    expect((await editTitle('bob', 'tab-b', 'From Bob')).status).toBe(204);
+
+    const fieldEvents = async (stream: typeof alice) => {
+      const events: LiveEvent[] = [];
+      while (events.length < 2) {
+        const event = await stream.next();
+        if (event.type === 'field') events.push(event);
+      }
+      return events;
+    };
+    for (const stream of [alice, bob]) {
+      expect(await fieldEvents(stream)).toMatchObject([
+        { fieldId: 'title', version: 1, participantId: 'tab-a' },
+        { fieldId: 'title', version: 2, participantId: 'tab-b' },
+      ]);
+    }
+
+    const { fields } = await getLiveRelay().getState('index:live');
+    expect(fields.title).toEqual({
+      document: paragraph('From Bob'),
+      version: 2,
+      participantId: 'tab-b',
+    });
+  });
+
+  it('sends the merged state to editors joining later', async () => {
+    const alice = await join('alice', 'tab-a');
+    await alice.next();
+    await editTitle('alice', 'tab-a', 'First');
+    await editTitle('alice', 'tab-a', 'Second');
+
+    const bob = await join('bob', 'tab-b');
+    let event = await bob.next();
+    while (event.type !== 'state') event = await bob.next();
+    expect(event.fields.title).toMatchObject({
+      document: paragraph('Second'),
+      version: 2,
+    });
+    expect(event.participants.map(({ id }) => id).sort()).toEqual([
+      'tab-a',
+      'tab-b',
+    ]);
+  });
+});
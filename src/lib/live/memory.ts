@@ -0,0 +1,106 @@
+import { LiveEvent, LiveField, LiveParticipant, LiveRelay } from './types';
+
+type MemorySession = {
+  fields: Map<string, LiveField>;
+  participants: Map<string, LiveParticipant>;
+  listeners: Set<(event: LiveEvent) => void>;
+  // Pending removal of the session once everyone has left.
+  expiry?: ReturnType<typeof setTimeout>;
+};
+
+// How long an abandoned session's merged state is kept, so a participant
+// reloading the page picks it up again.
+const ABANDONED_SESSION_TTL = 10 * 60 * 1000;
+
+declare global {
+  var __liveSessions: Map<string, MemorySession> | undefined;
+}
+
+// Next.js re-evaluates modules during development, so keep the sessions on
+// the global object to survive hot reloads.
+const globalSessions = (global.__liveSessions ??= new Map());
+
+export function createMemoryLiveRelay(
+  sessions: Map<string, MemorySession> = globalSessions
+): LiveRelay {
+  const sessionFor = (sessionId: string) => {
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = {
+        fields: new Map(),
+        participants: new Map(),
+        listeners: new Set(),
+      };
+      sessions.set(sessionId, session);
+    }
+    return session;
+  };
+
+  const broadcast = (session: MemorySession, event: LiveEvent) =>
+    session.listeners.forEach((listener) => listener(event));
+
+  const broadcastPresence = (session: MemorySession) =>
+    broadcast(session, {
+      type: 'presence',
+      participants: Array.from(session.participants.values()),
+    });
+
+  return {
+    async join(sessionId, participant) {
+      const session = sessionFor(sessionId);
+      clearTimeout(session.expiry);
+      session.participants.set(participant.id, participant);
+      broadcastPresence(session);
+    },
+    async leave(sessionId, participantId) {
+      const session = sessions.get(sessionId);
+      if (!session?.participants.delete(participantId)) return;
+      broadcastPresence(session);
+      if (!session.participants.size) {
+        session.expiry = setTimeout(
+          () => sessions.delete(sessionId),
+          ABANDONED_SESSION_TTL
+        );
+        session.expiry.unref?.();
+      }
+    },
+    async getParticipant(sessionId, participantId) {
+      return sessions.get(sessionId)?.participants.get(participantId) ?? null;
+    },
+    async getState(sessionId) {
+      const session = sessionFor(sessionId);
+      return {
+        fields: Object.fromEntries(session.fields),
+        participants: Array.from(session.participants.values()),
+      };
+    },
+    async updateField(sessionId, fieldId, document, participantId) {
+      const session = sessionFor(sessionId);
+      const field: LiveField = {
+        document,
+        version: (session.fields.get(fieldId)?.version ?? 0) + 1,
+        participantId,
+      };
+      session.fields.set(fieldId, field);
+      broadcast(session, { type: 'field', fieldId, ...field });
+    },
+    async setPresence(sessionId, participantId, fieldId) {
+      const session = sessions.get(sessionId);
+      const participant = session?.participants.get(participantId);
+      if (!participant || participant.fieldId === fieldId) return;
+      session.participants.set(participantId, { ...participant, fieldId });
+      broadcastPresence(session);
+    },
+    async announce(sessionId, event) {
+      const session = sessions.get(sessionId);
+      if (session) broadcast(session, event);
+    },
+    subscribe(sessionId, listener) {
+      const { listeners } = sessionFor(sessionId);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { RichDocument } from '../rich-text';
+
+export type LiveParticipant = {
+  // Random per browser tab.
+  id: string;
+  // The signed-in editor behind the tab; only they may act as it.
+  editorId: string;
+  name: string;
+  // The field the participant is editing, shown as a presence marker.
+  fieldId: string | null;
+};
+
+export type LiveField = {
+  document: RichDocument;
+  // Increments with every accepted change to the field.
+  version: number;
+  participantId: string;
+};
+
+export type LiveSessionState = {
+  fields: Record<string, LiveField>;
+  participants: LiveParticipant[];
+};
+
+// Sent to every participant over the event stream.
+export type LiveEvent =
+  | ({ type: 'state' } & LiveSessionState)
+  | ({ type: 'field'; fieldId: string } & LiveField)
+  | { type: 'presence'; participants: LiveParticipant[] }
+  | { type: 'saved'; snapshotId: string; participantId: string; name: string };
+
+// Holds the merged state of live sessions and relays changes to their
+// participants. Concurrent edits to one field are merged last-writer-wins.
+//
+// The in-memory relay only connects browsers talking to the same server
+// instance; deployments with several instances should provide a shared
+// implementation (e.g. backed by Redis pub/sub) with the same interface.
+export interface LiveRelay {
+  join(sessionId: string, participant: LiveParticipant): Promise<void>;
+  leave(sessionId: string, participantId: string): Promise<void>;
+  // Resolves to `null` when the session has no such participant.
+  getParticipant(
+    sessionId: string,
+    participantId: string
+  ): Promise<LiveParticipant | null>;
+  getState(sessionId: string): Promise<LiveSessionState>;
+  updateField(
+    sessionId: string,
+    fieldId: string,
+    document: RichDocument,
+    participantId: string
+  ): Promise<void>;
+  setPresence(
+    sessionId: string,
+    participantId: string,
+    fieldId: string | null
+  ): Promise<void>;
+  // Broadcasts an event that doesn't change the session state.
+  announce(sessionId: string, event: LiveEvent): Promise<void>;
+  // Returns a function that unsubscribes.
+  subscribe(
+    sessionId: string,
+    listener: (event: LiveEvent) => void
+  ): () => void;
+}
@@ -0,0 +1,36 @@
+// Structured server logs: one JSON object per line, with the time, level and
+// a dotted `event` name, plus whatever fields describe it. Pass the request's
+// `requestId` (lib/request-id.ts) so a request can be followed through the
+// logs.
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type LogFields = { requestId?: string } & Record<string, unknown>;
+
+// `JSON.stringify` drops everything of an `Error` but its enumerable fields.
+function serializeError(
+  error: Error & { code?: unknown; statusCode?: unknown }
+) {
+  return {
+    name: error.name,
+    message: error.message,
+    code: error.code,
+    statusCode: error.statusCode,
+    stack: error.stack,
+  };
+}
+
+export function log(level: LogLevel, event: string, fields: LogFields = {}) {
+  const line = JSON.stringify(
+    { time: new Date().toISOString(), level, event, ...fields },
+    (_, value) => (value instanceof Error ? serializeError(value) : value)
+  );
+  (level === 'info' ? process.stdout : process.stderr).write(`${line}\n`);
+}
+
+export const logInfo = (event: string, fields?: LogFields) =>
+  log('info', event, fields);
+export const logWarning = (event: string, fields?: LogFields) =>
+  log('warn', event, fields);
+export const logError = (event: string, fields?: LogFields) =>
+  log('error', event, fields);
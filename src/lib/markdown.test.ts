@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { documentToMarkdown, markdownToDocument } from './markdown';
+import { RichDocument } from './rich-text';
+
+describe('markdown', () => {
+  it('round-trips every format a document can hold', () => {
+    const document: RichDocument = [
+      { type: 'h3', children: [{ text: 'Heading' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { text: 'Plain ' },
+          { text: 'bold', bold: true },
+          { text: ', ' },
+          { text: 'italic', italic: true },
+          { text: ' and ' },
+          { text: 'code()', code: true },
+          { text: ' with a ' },
+          {
+            type: 'link',
+            url: 'https://example.com/docs',
+            children: [{ text: 'link' }],
+          },
+          { text: '\nand a second line' },
+        ],
+      },
+      {
+        type: 'bulleted-list',
+        children: [
+          { type: 'list-item', children: [{ text: 'one' }] },
+          { type: 'list-item', children: [{ text: 'two' }] },
+        ],
+      },
+      {
+        type: 'numbered-list',
+        children: [{ type: 'list-item', children: [{ text: 'first' }] }],
+      },
+    ];
+    expect(markdownToDocument(documentToMarkdown(document))).toEqual(document);
+  });
+
+  it('escapes text that would otherwise read as Markdown', () => {
+    const document: RichDocument = [
+      {
+        type: 'paragraph',
+        children: [{ text: '1. not a list, *not bold* and [no link]' }],
+      },
+      { type: 'paragraph', children: [{ text: '# not a heading' }] },
+    ];
+    const markdown = documentToMarkdown(document);
+    expect(markdown).toBe(
+      '1\\. not a list, \\*not bold\\* and \\[no link\\]\n\n\\# not a heading'
+    );
+    expect(markdownToDocument(markdown)).toEqual(document);
+  });
+
+  it('encodes parentheses in link URLs', () => {
+    const markdown = documentToMarkdown([
+      {
+        type: 'paragraph',
+        children: [
+          {
+            type: 'link',
+            url: 'https://example.com/a_(b)',
+            children: [{ text: 'link' }],
+          },
+        ],
+      },
+    ]);
+    expect(markdown).toBe('[link](https://example.com/a_%28b%29)');
+  });
+
+  it('reads empty Markdown as an empty paragraph', () => {
+    expect(markdownToDocument('\n\n')).toEqual([
+      { type: 'paragraph', children: [{ text: '' }] },
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  isLink,
+  isList,
+  RichBlock,
+  RichDocument,
+  RichInline,
+  RichLeaf,
+  RichMark,
+  textToDocument,
+} from './rich-text';
+
+// Converts rich-text documents to and from the subset of Markdown they can
+// express: `###`/`####` headings, bulleted and numbered lists, bold, italic,
+// code and links. Line breaks within a block end in a backslash.
+
+const ESCAPED = /[\\`*_[\]]/g;
+
+function escapeText(text: string) {
+  return text.replace(ESCAPED, '\\$&');
+}
+
+// Keeps the start of a line from being read as a heading, list item or
+// section.
+function escapeLineStart(line: string) {
+  return line.replace(/^(\s*)([#>+-]|\d+\.)/, (_, space, marker) =>
+    marker.endsWith('.')
+      ? `${space}${marker.slice(0, -1)}\\.`
+      : `${space}\\${marker}`
+  );
+}
+
+function leafToMarkdown(leaf: RichLeaf) {
+  // Emphasis can't start or end with whitespace, so that stays outside.
+  const [, before, text, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(leaf.text);
+  if (!text) return leaf.text;
+
+  // Code spans can't contain backticks, so those are left unformatted.
+  let markdown =
+    leaf.code && !text.includes('`') ? `\`${text}\`` : escapeText(text);
+  if (leaf.italic) markdown = `_${markdown}_`;
+  if (leaf.bold) markdown = `**${markdown}**`;
+  return before + markdown + after;
+}
+
+function inlinesToMarkdown(inlines: RichInline[]) {
+  return inlines
+    .map((inline) =>
+      isLink(inline)
+        ? `[${inline.children.map(leafToMarkdown).join('')}](${inline.url
+            .replace(/\(/g, '%28')
+            .replace(/\)/g, '%29')})`
+        : leafToMarkdown(inline)
+    )
+    .join('')
+    .split('\n')
+    .map(escapeLineStart)
+    .join('\\\n');
+}
+
+export function documentToMarkdown(document: RichDocument): string {
+  return document
+    .map((block) => {
+      if (isList(block)) {
+        return block.children
+          .map(
+            (item, i) =>
+              `${block.type === 'numbered-list' ? `${i + 1}.` : '-'} ${
+                inlinesToMarkdown(item.children) || ' '
+              }`
+          )
+          .join('\n');
+      }
+      const text = inlinesToMarkdown(block.children);
+      if (block.type === 'h3') return `### ${text}`;
+      if (block.type === 'h4') return `#### ${text}`;
+      return text;
+    })
+    .join('\n\n');
+}
+
+type Marks = { [mark in RichMark]?: true };
+
+// Finds the closing `delimiter` of a span starting before `from`, skipping
+// escaped characters. Returns -1 when the span isn't closed.
+function findClosing(text: string, delimiter: string, from: number) {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(delimiter, i) && i > from) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseLeaves(text: string, marks: Marks = {}): RichLeaf[] {
+  return parseInlines(text, marks).flatMap((inline) =>
+    isLink(inline) ? inline.children : [inline]
+  );
+}
+
+function parseInlines(text: string, marks: Marks = {}): RichInline[] {
+  const inlines: RichInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) inlines.push({ text: buffer, ...marks });
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && i + 1 < text.length) {
+      buffer += text[++i];
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        inlines.push({ text: text.slice(i + 1, end), ...marks, code: true });
+        i = end;
+        continue;
+      }
+    }
+
+    const delimiter = text.startsWith('**', i) ? '**' : char;
+    if (delimiter === '**' || delimiter === '_' || delimiter === '*') {
+      const end = findClosing(text, delimiter, i + delimiter.length);
+      if (end !== -1) {
+        flush();
+        const mark = delimiter === '**' ? 'bold' : 'italic';
+        inlines.push(
+          ...parseInlines(text.slice(i + delimiter.length, end), {
+            ...marks,
+            [mark]: true,
+          })
+        );
+        i = end + delimiter.length - 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const close = findClosing(text, '](', i + 1);
+      const end = close === -1 ? -1 : text.indexOf(')', close + 2);
+      if (end !== -1) {
+        flush();
+        const children = parseLeaves(text.slice(i + 1, close), marks);
+        const url = text.slice(close + 2, end).trim();
+        inlines.push(
+          children.length
+            ? { type: 'link', url, children }
+            : { text: url, ...marks }
+        );
+        i = end;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+  flush();
+  return inlines;
+}
+
+// Joins the lines of a block: a trailing backslash is a line break, anything
+// else is a wrapped line.
+function joinLines(lines: string[]) {
+  return lines
+    .map((line, i) =>
+      /(^|[^\\])(\\\\)*\\$/.test(line)
+        ? `${line.slice(0, -1)}\n`
+        : i < lines.length - 1
+        ? `${line} `
+        : line
+    )
+    .join('');
+}
+
+function inlinesOf(lines: string[]): RichInline[] {
+  const inlines = parseInlines(joinLines(lines).trim());
+  return inlines.length ? inlines : [{ text: '' }];
+}
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)\.)\s+/;
+
+function parseBlock(lines: string[]): RichBlock {
+  const heading = /^(#{3,4})\s+(.*)$/.exec(lines[0]);
+  if (heading) {
+    return {
+      type: heading[1].length === 3 ? 'h3' : 'h4',
+      children: inlinesOf([heading[2], ...lines.slice(1)]),
+    };
+  }
+
+  const marker = LIST_ITEM.exec(lines[0]);
+  if (marker) {
+    const items: string[][] = [];
+    lines.forEach((line) => {
+      if (LIST_ITEM.test(line)) {
+        items.push([line.replace(LIST_ITEM, '')]);
+      } else {
+        items[items.length - 1].push(line.trim());
+      }
+    });
+    return {
+      type: marker[1] ? 'bulleted-list' : 'numbered-list',
+      children: items.map((item) => ({
+        type: 'list-item',
+        children: inlinesOf(item),
+      })),
+    };
+  }
+
+  return { type: 'paragraph', children: inlinesOf(lines) };
+}
+
+export function markdownToDocument(markdown: string): RichDocument {
+  const blocks: string[][] = [[]];
+  markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .forEach((line) => {
+      if (line.trim()) {
+        blocks[blocks.length - 1].push(line);
+      } else if (blocks[blocks.length - 1].length) {
+        blocks.push([]);
+      }
+    });
+  const document = blocks.filter((lines) => lines.length).map(parseBlock);
+  return document.length ? document : textToDocument('');
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { counter, histogram, renderMetrics } from './metrics';
+
+describe('renderMetrics', () => {
+  it('renders counters by label', () => {
+    const requests = counter('test_requests_total', 'Requests handled.');
+    requests.inc({ code: 'ok' });
+    requests.inc({ code: 'ok' });
+    requests.inc({ code: 'error' }, 3);
+
+    expect(renderMetrics()).toContain(
+      [
+        '# HELP test_requests_total Requests handled.',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{code="ok"} 2',
+        'test_requests_total{code="error"} 3',
+      ].join('\n')
+    );
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const durations = histogram('test_duration_seconds', 'Durations.', [1, 5]);
+    durations.observe(0.5);
+    durations.observe(3);
+    durations.observe(10);
+
+    expect(renderMetrics()).toContain(
+      [
+        '# HELP test_duration_seconds Durations.',
+        '# TYPE test_duration_seconds histogram',
+        'test_duration_seconds_bucket{le="1"} 1',
+        'test_duration_seconds_bucket{le="5"} 2',
+        'test_duration_seconds_bucket{le="+Inf"} 3',
+        'test_duration_seconds_sum 13.5',
+        'test_duration_seconds_count 3',
+      ].join('\n')
+    );
+  });
+
+  it('includes the snapshot cache', () => {
+    expect(renderMetrics()).toContain(
+      '# TYPE snapshot_cache_hits_total counter'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { getSnapshotCacheStats } from './snapshot-store';
+
+// In-process counters and histograms, rendered in the Prometheus text format
+// by api/metrics.tsx. Each server instance counts on its own; Prometheus
+// adds them up.
+
+type Labels = Record<string, string>;
+
+type Series = {
+  labels: Labels;
+  // The count, for histograms.
+  value: number;
+  // Histograms only: cumulative counts per bucket, and the sum observed.
+  buckets?: number[];
+  sum?: number;
+};
+
+type Metric = {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  buckets?: number[];
+  series: Map<string, Series>;
+};
+
+declare global {
+  var __metrics: Map<string, Metric> | undefined;
+}
+
+// Next.js bundles pages and API routes separately (and re-evaluates modules
+// during development), so keep the metrics on the global object for every
+// bundle to count into the same ones.
+const registry = (global.__metrics ??= new Map());
+
+function register(metric: Omit<Metric, 'series'>): Metric {
+  if (!registry.has(metric.name)) {
+    registry.set(metric.name, { ...metric, series: new Map() });
+  }
+  return registry.get(metric.name);
+}
+
+function seriesFor(metric: Metric, labels: Labels) {
+  const key = JSON.stringify(Object.entries(labels).sort());
+  if (!metric.series.has(key)) {
+    metric.series.set(key, {
+      labels,
+      value: 0,
+      ...(metric.buckets && {
+        buckets: metric.buckets.map(() => 0),
+        sum: 0,
+      }),
+    });
+  }
+  return metric.series.get(key);
+}
+
+export function counter(name: string, help: string) {
+  const metric = register({ name, help, type: 'counter' });
+  return {
+    inc(labels: Labels = {}, amount = 1) {
+      seriesFor(metric, labels).value += amount;
+    },
+  };
+}
+
+export function histogram(name: string, help: string, buckets: number[]) {
+  const metric = register({ name, help, type: 'histogram', buckets });
+  return {
+    observe(value: number, labels: Labels = {}) {
+      const series = seriesFor(metric, labels);
+      series.value++;
+      series.sum += value;
+      metric.buckets.forEach((bound, i) => {
+        if (value <= bound) series.buckets[i]++;
+      });
+    },
+  };
+}
+
+// Seconds since `start`, a `process.hrtime.bigint()`.
+export function secondsSince(start: bigint) {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+export const snapshotSaves = counter(
+  'snapshot_saves_total',
+  'Requests to save a snapshot, by response status.'
+);
+export const snapshotSaveBytes = histogram(
+  'snapshot_save_bytes',
+  'Size of saved snapshots, serialized.',
+  [1024, 4096, 16384, 65536, 262144, 1048576]
+);
+export const snapshotSaveFields = histogram(
+  'snapshot_save_fields',
+  'Number of fields saved snapshots change from the published page.',
+  [1, 2, 5, 10, 20, 50]
+);
+export const snapshotSaveDuration = histogram(
+  'snapshot_save_duration_seconds',
+  'Time taken to answer requests to save a snapshot.',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+export const previewEntries = counter(
+  'preview_entries_total',
+  'Share links opened, by outcome.'
+);
+export const previewExits = counter(
+  'preview_exits_total',
+  'Exits from preview mode.'
+);
+export const snapshotLoadFailures = counter(
+  'snapshot_load_failures_total',
+  'Previews that failed to load their snapshot, by error code.'
+);
+export const editorSignOutDuration = histogram(
+  'editor_sign_out_duration_seconds',
+  'How long editors who signed out had been signed in; expired sessions are not counted.',
+  [60, 300, 900, 3600, 4 * 3600, 24 * 3600, 7 * 24 * 3600]
+);
+
+function formatLabels(labels: Labels, extra: Labels = {}) {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (!entries.length) return '';
+  return `{${entries
+    .map(
+      ([name, value]) =>
+        `${name}="${value
+          .replace(/\\/g, '\\\\')
+          .replace(/\n/g, '\\n')
+          .replace(/"/g, '\\"')}"`
+    )
+    .join(',')}}`;
+}
+
+function renderMetric({ name, help, type, buckets, series }: Metric) {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  series.forEach(({ labels, value, buckets: counts, sum }) => {
+    if (type !== 'histogram') {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+      return;
+    }
+    buckets.forEach((bound, i) =>
+      lines.push(
+        `${name}_bucket${formatLabels(labels, { le: String(bound) })} ${
+          counts[i]
+        }`
+      )
+    );
+    lines.push(
+      `${name}_bucket${formatLabels(labels, { le: '+Inf' })} ${value}`,
+      `${name}_sum${formatLabels(labels)} ${sum}`,
+      `${name}_count${formatLabels(labels)} ${value}`
+    );
+  });
+  return lines.join('\n');
+}
+
+// The snapshot cache keeps its own counts (lib/snapshot-store/cache.ts).
+function snapshotCacheMetrics(): Metric[] {
+  const stats = getSnapshotCacheStats();
+  if (!stats) return [];
+  const metric = (
+    name: string,
+    help: string,
+    type: Metric['type'],
+    values: [Labels, number][]
+  ): Metric => ({
+    name,
+    help,
+    type,
+    series: new Map(
+      values.map(([labels, value], i) => [String(i), { labels, value }])
+    ),
+  });
+  return [
+    metric(
+      'snapshot_cache_hits_total',
+      'Snapshot reads answered by the cache, by tier.',
+      'counter',
+      [
+        [{ tier: 'memory' }, stats.memoryHits],
+        [{ tier: 'disk' }, stats.diskHits],
+        [{ tier: 'negative' }, stats.negativeHits],
+      ]
+    ),
+    metric(
+      'snapshot_cache_misses_total',
+      'Snapshot reads that went to storage.',
+      'counter',
+      [[{}, stats.misses]]
+    ),
+    metric(
+      'snapshot_cache_evictions_total',
+      'Entries evicted from the snapshot cache.',
+      'counter',
+      [[{}, stats.evictions]]
+    ),
+    metric(
+      'snapshot_cache_entries',
+      'Entries in the snapshot cache, by tier.',
+      'gauge',
+      [
+        [{ tier: 'memory' }, stats.entries],
+        [{ tier: 'disk' }, stats.diskEntries],
+      ]
+    ),
+  ];
+}
+
+export function renderMetrics() {
+  return `${[...Array.from(registry.values()), ...snapshotCacheMetrics()]
+    .map(renderMetric)
+    .join('\n')}\n`;
+}
@@ -0,0 +1,19 @@
+import { Children, isValidElement, ReactNode } from 'react';
+
+// Approximates the `innerText` a React tree would render to, without touching
+// the DOM. `<br />` becomes a line break; every other element contributes its
+// children's text.
+export function nodeToText(node: ReactNode): string {
+  let text = '';
+  Children.forEach(node, (child) => {
+    if (typeof child === 'string' || typeof child === 'number') {
+      text += child;
+    } else if (isValidElement(child)) {
+      text +=
+        child.type === 'br'
+          ? '\n'
+          : nodeToText((child.props as { children?: ReactNode }).children);
+    }
+  });
+  return text;
+}
@@ -0,0 +1,127 @@
+import { GLYPH_HEIGHT, GLYPH_WIDTH, isGlyphPixel, toFontText } from './font';
+import { encodePng } from './png';
+
+// The size recommended for Open Graph images.
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+const MARGIN = 80;
+
+type Color = [number, number, number];
+
+// Matches the `--geist-*` and `--accents-*` colors in global.css.
+const WHITE: Color = [255, 255, 255];
+const BLUE: Color = [0, 112, 243];
+const DARK: Color = [17, 17, 17];
+const GRAY: Color = [51, 51, 51];
+const LIGHT_GRAY: Color = [136, 136, 136];
+
+export type SnapshotCard = {
+  title: string;
+  // The first changed field, if any.
+  excerpt: string | null;
+  // Who saved the snapshot and when.
+  byline: string;
+};
+
+function fillRect(
+  pixels: Uint8Array,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: Color
+) {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      pixels.set(color, (row * CARD_WIDTH + col) * 3);
+    }
+  }
+}
+
+// Draws a single line of text, with each font pixel scaled up to a square
+// of `scale` pixels.
+function drawText(
+  pixels: Uint8Array,
+  text: string,
+  x: number,
+  y: number,
+  scale: number,
+  color: Color
+) {
+  for (let i = 0; i < text.length; i++) {
+    const left = x + i * (GLYPH_WIDTH + 1) * scale;
+    for (let col = 0; col < GLYPH_WIDTH; col++) {
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        if (isGlyphPixel(text[i], col, row)) {
+          fillRect(
+            pixels,
+            left + col * scale,
+            y + row * scale,
+            scale,
+            scale,
+            color
+          );
+        }
+      }
+    }
+  }
+}
+
+// Breaks text into at most `maxLines` lines of `maxChars` characters, at
+// spaces where possible. Text that doesn't fit ends in an ellipsis.
+function wrapText(text: string, maxChars: number, maxLines: number) {
+  const lines: string[] = [];
+  let rest = text;
+  while (rest && lines.length < maxLines) {
+    if (rest.length <= maxChars) {
+      lines.push(rest);
+      rest = '';
+      break;
+    }
+    const space = rest.lastIndexOf(' ', maxChars);
+    const end = space > 0 ? space : maxChars;
+    lines.push(rest.slice(0, end));
+    rest = rest.slice(end).trimStart();
+  }
+  if (rest) {
+    const last = lines[lines.length - 1];
+    lines[lines.length - 1] = `${last.slice(0, maxChars - 3).trimEnd()}...`;
+  }
+  return lines;
+}
+
+function drawParagraph(
+  pixels: Uint8Array,
+  text: string,
+  y: number,
+  scale: number,
+  maxLines: number,
+  color: Color
+) {
+  const maxChars = Math.floor(
+    (CARD_WIDTH - 2 * MARGIN) / ((GLYPH_WIDTH + 1) * scale)
+  );
+  const lineHeight = (GLYPH_HEIGHT + 2) * scale;
+  const lines = wrapText(toFontText(text), maxChars, maxLines);
+  lines.forEach((line, i) =>
+    drawText(pixels, line, MARGIN, y + i * lineHeight, scale, color)
+  );
+  return y + lines.length * lineHeight;
+}
+
+// Renders the card shown when a share link is unfurled, as a PNG.
+export function renderCard({ title, excerpt, byline }: SnapshotCard) {
+  const pixels = new Uint8Array(CARD_WIDTH * CARD_HEIGHT * 3);
+  fillRect(pixels, 0, 0, CARD_WIDTH, CARD_HEIGHT, WHITE);
+  fillRect(pixels, 0, 0, CARD_WIDTH, 16, BLUE);
+
+  drawText(pixels, 'NEXT.JS PREVIEW MODE', MARGIN, 64, 3, LIGHT_GRAY);
+  const titleBottom = drawParagraph(pixels, title, 128, 7, 2, DARK);
+  if (excerpt) {
+    drawParagraph(pixels, excerpt, titleBottom + 32, 4, 4, GRAY);
+  }
+  drawParagraph(pixels, byline, CARD_HEIGHT - MARGIN - 24, 3, 1, BLUE);
+
+  return encodePng(CARD_WIDTH, CARD_HEIGHT, pixels);
+}
@@ -0,0 +1,142 @@
+// A 5×8 pixel font covering printable ASCII, bundled so cards render without
+// any system fonts. Each glyph is five columns, left to right, as hex bytes
+// whose least significant bit is the top row.
+const GLYPHS = [
+  '0000000000', // (space)
+  '00005f0000', // !
+  '0007000700', // "
+  '147f147f14', // #
+  '242a7f2a12', // $
+  '2313086462', // %
+  '3649562050', // &
+  '0008070300', // '
+  '001c224100', // (
+  '0041221c00', // )
+  '2a1c7f1c2a', // *
+  '08083e0808', // +
+  '0080703000', // ,
+  '0808080808', // -
+  '0000606000', // .
+  '2010080402', // /
+  '3e5149453e', // 0
+  '00427f4000', // 1
+  '7249494946', // 2
+  '2141494d33', // 3
+  '1814127f10', // 4
+  '2745454539', // 5
+  '3c4a494931', // 6
+  '4121110907', // 7
+  '3649494936', // 8
+  '464949291e', // 9
+  '0000140000', // :
+  '0040340000', // ;
+  '0008142241', // <
+  '1414141414', // =
+  '0041221408', // >
+  '0201590906', // ?
+  '3e415d594e', // @
+  '7c1211127c', // A
+  '7f49494936', // B
+  '3e41414122', // C
+  '7f4141413e', // D
+  '7f49494941', // E
+  '7f09090901', // F
+  '3e41415173', // G
+  '7f0808087f', // H
+  '00417f4100', // I
+  '2040413f01', // J
+  '7f08142241', // K
+  '7f40404040', // L
+  '7f021c027f', // M
+  '7f0408107f', // N
+  '3e4141413e', // O
+  '7f09090906', // P
+  '3e4151215e', // Q
+  '7f09192946', // R
+  '2649494932', // S
+  '03017f0103', // T
+  '3f4040403f', // U
+  '1f2040201f', // V
+  '3f4038403f', // W
+  '6314081463', // X
+  '0304780403', // Y
+  '6159494d43', // Z
+  '007f414141', // [
+  '0204081020', // \\
+  '004141417f', // ]
+  '0402010204', // ^
+  '4040404040', // _
+  '0003070800', // `
+  '2054547840', // a
+  '7f28444438', // b
+  '3844444428', // c
+  '384444287f', // d
+  '3854545418', // e
+  '00087e0902', // f
+  '18a4a49c78', // g
+  '7f08040478', // h
+  '00447d4000', // i
+  '2040403d00', // j
+  '7f10284400', // k
+  '00417f4000', // l
+  '7c04780478', // m
+  '7c08040478', // n
+  '3844444438', // o
+  'fc18242418', // p
+  '18242418fc', // q
+  '7c08040408', // r
+  '4854545424', // s
+  '04043f4424', // t
+  '3c4040207c', // u
+  '1c2040201c', // v
+  '3c4030403c', // w
+  '4428102844', // x
+  '4c9090907c', // y
+  '4464544c44', // z
+  '0008364100', // {
+  '0000770000', // |
+  '0041360800', // }
+  '0201020402', // ~
+];
+
+const FIRST_CODE = 0x20;
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 8;
+
+// Typographic characters the font lacks, mapped to ASCII look-alikes.
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '•': '*',
+  '·': '-',
+  ' ': ' ',
+};
+
+// Rewrites text into characters the font can draw: accents are dropped,
+// whitespace is collapsed, and anything else unsupported becomes `?`.
+export function toFontText(text: string) {
+  return (
+    text
+      .normalize('NFKD')
+      // Combining accents, and the joiners and variation selectors in emoji.
+      .replace(/[\u0300-\u036f\u200d\ufe0f]/g, '')
+      // Characters outside the Basic Multilingual Plane, such as most emoji.
+      .replace(/[\ud800-\udbff][\udc00-\udfff]/g, '?')
+      .replace(/[^\x20-\x7e]/g, (char) =>
+        /\s/.test(char) ? ' ' : REPLACEMENTS[char] ?? '?'
+      )
+      .replace(/ +/g, ' ')
+      .trim()
+  );
+}
+
+// Whether the pixel at column `x` and row `y` of a character's glyph is set.
+export function isGlyphPixel(char: string, x: number, y: number) {
+  const glyph = GLYPHS[char.charCodeAt(0) - FIRST_CODE] ?? GLYPHS[0];
+  return (parseInt(glyph.substr(x * 2, 2), 16) >> y) & 1;
+}
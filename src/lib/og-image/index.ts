@@ -0,0 +1,95 @@
+import { getPage } from '../../content/pages';
+import {
+  checkShareAccess,
+  getShareSettings,
+  SHARE_ACCESS_MESSAGES,
+} from '../share-settings';
+import { readSnapshot, Snapshot } from '../snapshot';
+import { getSnapshotStore } from '../snapshot-store';
+import { renderCard, SnapshotCard } from './card';
+
+export { CARD_HEIGHT, CARD_WIDTH } from './card';
+
+// Rendered cards, oldest first. Snapshots never change, so a card only
+// depends on the snapshot id and whether its link is protected.
+const cache = new Map<string, Buffer>();
+const MAX_CACHED_CARDS = 100;
+
+function formatDate(timestamp: string) {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function describeSnapshot(snapshot: Snapshot): SnapshotCard {
+  const page = getPage(snapshot.page);
+  const edits = new Map(snapshot.edits.map((edit) => [edit.id, edit]));
+  const text = (id: string) => edits.get(id)?.innerText.trim();
+
+  // The first field with edits, in page order.
+  const changedId = page?.fields.find(
+    ({ id }) => id !== 'title' && text(id)
+  )?.id;
+
+  return {
+    title:
+      text('title') ||
+      page?.fields.find(({ id }) => id === 'title')?.defaultText ||
+      page?.title ||
+      'Untitled page',
+    excerpt: changedId ? text(changedId) : null,
+    byline: [
+      snapshot.author?.name,
+      snapshot.createdAt && formatDate(snapshot.createdAt),
+    ]
+      .filter(Boolean)
+      .join(' · '),
+  };
+}
+
+// The Open Graph image of a snapshot's share link, as a PNG. Resolves to
+// `null` when there's no such snapshot. Protected and expired links get a
+// card that doesn't give away any of the edits.
+export async function getSnapshotCardImage(
+  snapshotId: string
+): Promise<Buffer | null> {
+  const settings = await getShareSettings(snapshotId);
+  const access = checkShareAccess(settings, { countingView: false });
+  const variant = settings?.passphraseHash ? 'protected' : access;
+  const key = `${snapshotId}:${variant}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const result = readSnapshot(await getSnapshotStore().get(snapshotId));
+  if (result.ok === false) return null;
+  const { snapshot } = result;
+
+  let card = describeSnapshot(snapshot);
+  if (variant !== 'ok') {
+    card = {
+      title: `Draft of ${getPage(snapshot.page)?.title ?? 'a page'}`,
+      excerpt:
+        variant === 'protected'
+          ? 'This draft is protected by a passphrase.'
+          : SHARE_ACCESS_MESSAGES[variant],
+      byline: snapshot.createdAt ? formatDate(snapshot.createdAt) : '',
+    };
+  }
+
+  const image = renderCard(card);
+  cache.set(key, image);
+  if (cache.size > MAX_CACHED_CARDS) {
+    cache.delete(cache.keys().next().value);
+  }
+  return image;
+}
+
+// Drops the cached cards of a deleted snapshot.
+export function forgetSnapshotCard(snapshotId: string) {
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${snapshotId}:`)) cache.delete(key);
+  }
+}
@@ -0,0 +1,156 @@
+import type { FieldEdit } from '../components/malleable';
+import { ContentPage, pagePath } from '../content/pages';
+import type { ErrorCode } from './errors';
+import { LogFields, logError, logWarning } from './log';
+import { snapshotLoadFailures } from './metrics';
+import {
+  checkShareAccess,
+  getShareSettings,
+  ShareAccess,
+  SHARE_ACCESS_MESSAGES,
+} from './share-settings';
+import { getPublishedEdits } from './publish';
+import { readSnapshot } from './snapshot';
+import { getSnapshotStore } from './snapshot-store';
+
+// What `res.setPreviewData` stores in the preview cookie. See the API
+// endpoint that enters "Preview Mode" (api/share/[snapshotId].tsx).
+export type PreviewData = {
+  // `null` when the share link didn't resolve to a snapshot id.
+  snapshotId: string | null;
+  // Set instead of entering the preview when the share link can't be used.
+  error?: ShareAccess | 'not-found';
+  // The correlation id of the request that entered the preview, so its
+  // page renders can be traced back to the share link (lib/request-id.ts).
+  requestId?: string;
+};
+
+export type PreviewProps =
+  // `contents` is the published version of the page, if any.
+  | { isPreview: false; hasError?: false; contents: FieldEdit[] }
+  | { isPreview: false; hasError: true; code: ErrorCode; message: string }
+  | {
+      isPreview: true;
+      hasError?: false;
+      snapshotId: string;
+      // The page the snapshot edits. Other pages show their published content
+      // while the preview cookie is set.
+      snapshotPage: string;
+      // The snapshot's edits over the published version.
+      contents: FieldEdit[];
+      // The published version on its own, which "show changes" compares the
+      // snapshot with.
+      published: FieldEdit[];
+      label: string | null;
+    };
+
+const errorProps = (code: ErrorCode, message: string): PreviewProps => ({
+  isPreview: false,
+  hasError: true,
+  code,
+  message,
+});
+
+// Storage may be unreachable while building, in which case the page is built
+// with its defaults. Publishing revalidates it later on.
+async function loadPublishedEdits(page: ContentPage) {
+  try {
+    return await getPublishedEdits(page);
+  } catch (error) {
+    logError('published.load_failed', { page: page.slug, error });
+    return [];
+  }
+}
+
+// Edits in `overrides` replace those in `base` with the same id.
+function mergeEdits(base: FieldEdit[], overrides: FieldEdit[]) {
+  const ids = new Set(overrides.map(({ id }) => id));
+  return [...base.filter(({ id }) => !ids.has(id)), ...overrides];
+}
+
+// Loads a page's content for `getStaticProps`: its published version, and
+// the snapshot referenced by the preview cookie when there is one.
+export async function getPreviewProps(
+  page: ContentPage,
+  previewData: PreviewData | undefined
+): Promise<PreviewProps> {
+  const published = await loadPublishedEdits(page);
+  if (!previewData) return { isPreview: false, contents: published };
+
+  const { snapshotId, error, requestId } = previewData;
+  const fail = (code: ErrorCode, message: string, details?: LogFields) => {
+    snapshotLoadFailures.inc({ code });
+    logWarning('preview.load_failed', {
+      requestId,
+      snapshotId,
+      code,
+      ...details,
+    });
+    return errorProps(code, message);
+  };
+  if (error === 'not-found') {
+    return fail('not-found', 'The requested preview edit does not exist!');
+  }
+
+  let stored: unknown;
+  let access: ShareAccess = error ?? 'ok';
+  try {
+    // In preview mode, we want to access the stored data from the snapshot
+    // store. Imagine using this to fetch draft CMS state, etc.
+    stored = await getSnapshotStore().get(snapshotId);
+
+    // A link may expire while its preview cookie is still around.
+    if (access === 'ok') {
+      const settings = await getShareSettings(snapshotId);
+      access = checkShareAccess(settings, { countingView: false });
+    }
+  } catch (e) {
+    return fail(
+      'storage-unavailable',
+      'An error has occurred while connecting to storage.',
+      { error: e }
+    );
+  }
+
+  if (access !== 'ok') {
+    return fail('expired', SHARE_ACCESS_MESSAGES[access]);
+  }
+
+  if (stored == null) {
+    return fail('not-found', 'The requested preview edit does not exist!');
+  }
+
+  // Stored snapshots are validated with the same schema as `/api/save`, so a
+  // corrupted object renders the error page instead of throwing.
+  const result = readSnapshot(stored);
+  if (result.ok === false) {
+    return fail(
+      'invalid-payload',
+      'The requested preview edit is corrupted and cannot be displayed.',
+      { errors: result.errors }
+    );
+  }
+  const { snapshot } = result;
+  return {
+    isPreview: true,
+    snapshotId,
+    snapshotPage: snapshot.page,
+    contents:
+      snapshot.page === page.slug
+        ? mergeEdits(published, snapshot.edits)
+        : published,
+    published,
+    label: snapshot.label,
+  };
+}
+
+// Where a share link lands: the page its snapshot edits. Anything unreadable
+// lands on the home page, whose `getStaticProps` renders the error.
+export async function getSnapshotPath(snapshotId: string): Promise<string> {
+  try {
+    const result = readSnapshot(await getSnapshotStore().get(snapshotId));
+    return result.ok ? pagePath(result.snapshot.page) : '/';
+  } catch (e) {
+    return '/';
+  }
+}
@@ -0,0 +1,120 @@
+import type { NextApiResponse } from 'next';
+import type { FieldEdit } from '../components/malleable';
+import { ContentPage, pageFieldElements } from '../content/pages';
+import { logError } from './log';
+import { Snapshot, SnapshotAuthor } from './snapshot';
+import { getSnapshotStore } from './snapshot-store';
+import { validateEdits } from './validate-edits';
+
+// Older versions beyond this are dropped and can no longer be rolled back to.
+export const MAX_PUBLISHED_VERSIONS = 50;
+
+// A snapshot promoted to the live page. The edits are copied, so deleting the
+// snapshot afterwards doesn't take the live content with it.
+export type PublishedVersion = {
+  version: number;
+  snapshotId: string;
+  edits: FieldEdit[];
+  publishedAt: string;
+  publishedBy: SnapshotAuthor;
+};
+
+// Everything ever published to a page. Rolling back only moves
+// `currentVersion`; `null` serves the page's default content.
+export type PublishedPage = {
+  currentVersion: number | null;
+  // Newest first.
+  versions: PublishedVersion[];
+};
+
+const store = () => getSnapshotStore('published');
+
+// Store ids can't contain `/`, which nested page slugs do.
+const keyFor = (slug: string) => slug.replace(/\//g, '--');
+
+export async function getPublishedPage(slug: string): Promise<PublishedPage> {
+  return (
+    (await store().get<PublishedPage>(keyFor(slug))) ?? {
+      currentVersion: null,
+      versions: [],
+    }
+  );
+}
+
+export function getCurrentVersion({ currentVersion, versions }: PublishedPage) {
+  return versions.find(({ version }) => version === currentVersion) ?? null;
+}
+
+// The edits served on a page outside of "Preview Mode". They are checked like
+// a stored snapshot, so a corrupted version serves the page's defaults.
+export async function getPublishedEdits(
+  page: ContentPage
+): Promise<FieldEdit[]> {
+  const current = getCurrentVersion(await getPublishedPage(page.slug));
+  if (!current) return [];
+  const result = validateEdits(current.edits, pageFieldElements(page));
+  if (result.ok === false) {
+    logError('published.invalid', {
+      page: page.slug,
+      version: current.version,
+      errors: result.errors,
+    });
+    return [];
+  }
+  return result.edits;
+}
+
+// Makes a snapshot the live content of its page. This is a read-modify-write,
+// so two admins publishing the same page at once may lose a version from the
+// history; the last one still wins.
+export async function publishSnapshot(
+  snapshotId: string,
+  snapshot: Snapshot,
+  publishedBy: SnapshotAuthor,
+  now: Date = new Date()
+): Promise<PublishedVersion> {
+  const published = await getPublishedPage(snapshot.page);
+  const version: PublishedVersion = {
+    version: (published.versions[0]?.version ?? 0) + 1,
+    snapshotId,
+    edits: snapshot.edits,
+    publishedAt: now.toISOString(),
+    publishedBy: { id: publishedBy.id, name: publishedBy.name },
+  };
+  await store().put(keyFor(snapshot.page), {
+    currentVersion: version.version,
+    versions: [version, ...published.versions].slice(0, MAX_PUBLISHED_VERSIONS),
+  });
+  return version;
+}
+
+// Serves a previously published version again, or the defaults for `null`.
+// Resolves to `false` when the version is unknown.
+export async function rollBackPage(slug: string, version: number | null) {
+  const published = await getPublishedPage(slug);
+  if (
+    version !== null &&
+    !published.versions.some((v) => v.version === version)
+  ) {
+    return false;
+  }
+  await store().put(keyFor(slug), { ...published, currentVersion: version });
+  return true;
+}
+
+// Regenerates a statically generated page with on-demand revalidation. The
+// published version is recorded either way, and a page that failed to
+// regenerate picks it up on its next build.
+export async function revalidatePage(
+  res: NextApiResponse,
+  path: string,
+  requestId?: string
+) {
+  try {
+    await res.unstable_revalidate(path);
+    return true;
+  } catch (err) {
+    logError('page.revalidate_failed', { requestId, path, error: err });
+    return false;
+  }
+}
@@ -0,0 +1,95 @@
+import type { IncomingMessage } from 'http';
+import type { NextApiResponse } from 'next';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  consume,
+  createMemoryRateLimitStore,
+  getClientIp,
+  RateLimitRule,
+  setRateLimitHeaders,
+  setRateLimitStore,
+} from '.';
+
+const RULE: RateLimitRule = { name: 'test', limit: 2, windowMs: 60 * 1000 };
+
+describe('consume', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit per key and window', async () => {
+    expect((await consume(RULE, 'a')).allowed).toBe(true);
+    expect(await consume(RULE, 'a')).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect((await consume(RULE, 'a')).allowed).toBe(false);
+    expect((await consume(RULE, 'b')).allowed).toBe(true);
+    expect((await consume({ ...RULE, name: 'other' }, 'a')).allowed).toBe(true);
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    await consume(RULE, 'a');
+    await consume(RULE, 'a');
+    expect((await consume(RULE, 'a')).allowed).toBe(false);
+
+    vi.advanceTimersByTime(RULE.windowMs);
+    expect(await consume(RULE, 'a')).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+  });
+});
+
+describe('setRateLimitHeaders', () => {
+  it('reports the strictest result and when to retry', () => {
+    const headers: Record<string, string> = {};
+    const res = {
+      setHeader: (name: string, value: string) => (headers[name] = value),
+    } as unknown as NextApiResponse;
+    const now = 1000;
+
+    const result = setRateLimitHeaders(
+      res,
+      [
+        { allowed: true, limit: 10, remaining: 5, resetAt: now + 60 * 1000 },
+        { allowed: false, limit: 2, remaining: 0, resetAt: now + 30 * 1000 },
+      ],
+      now
+    );
+    expect(result).toEqual({ allowed: false, retryAfter: 30 });
+    expect(headers).toEqual({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '30',
+      'Retry-After': '30',
+    });
+  });
+});
+
+describe('getClientIp', () => {
+  const request = (forwardedFor?: string) =>
+    ({
+      headers: { 'x-forwarded-for': forwardedFor },
+      socket: { remoteAddress: '10.0.0.1' },
+    } as unknown as IncomingMessage);
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('ignores X-Forwarded-For unless a proxy is trusted', () => {
+    expect(getClientIp(request('203.0.113.7'))).toBe('10.0.0.1');
+  });
+
+  it('takes the address the trusted proxy added', () => {
+    vi.stubEnv('TRUST_PROXY', '1');
+    expect(getClientIp(request('198.51.100.1, 203.0.113.7'))).toBe(
+      '203.0.113.7'
+    );
+    expect(getClientIp(request())).toBe('10.0.0.1');
+  });
+});
@@ -0,0 +1,89 @@
+import type { IncomingMessage } from 'http';
+import type { NextApiResponse } from 'next';
+import { createMemoryRateLimitStore } from './memory';
+import { RateLimitResult, RateLimitStore } from './types';
+
+export type {
+  RateLimitCounter,
+  RateLimitResult,
+  RateLimitStore,
+} from './types';
+export { createMemoryRateLimitStore };
+
+export type RateLimitRule = {
+  // Distinguishes rules that share a store, e.g. `save:ip`.
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+declare global {
+  var __rateLimitStore: RateLimitStore | undefined;
+}
+
+// Next.js bundles pages and API routes separately (and re-evaluates modules
+// during development), so keep the store on the global object: otherwise
+// each bundle would count requests on its own.
+global.__rateLimitStore ??= createMemoryRateLimitStore();
+
+// Swaps in a shared store so limits hold across server instances.
+export function setRateLimitStore(sharedStore: RateLimitStore) {
+  global.__rateLimitStore = sharedStore;
+}
+
+export async function consume(
+  rule: RateLimitRule,
+  key: string
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await global.__rateLimitStore.increment(
+    `${rule.name}:${key}`,
+    rule.windowMs
+  );
+  return {
+    allowed: count <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    resetAt,
+  };
+}
+
+// The client address. Behind a reverse proxy (`TRUST_PROXY=1`), that's the
+// last `x-forwarded-for` entry, the address the proxy saw; entries before it
+// come from the client. Without one, the header is ignored, as anyone could
+// send it to dodge the limits.
+export function getClientIp(req: IncomingMessage) {
+  if (process.env.TRUST_PROXY === '1') {
+    const forwarded = req.headers['x-forwarded-for'];
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+      ?.split(',')
+      .pop()
+      .trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// Writes the `RateLimit-*` headers (IETF draft) for the most restrictive of
+// the given results, plus `Retry-After` when the request is rejected.
+export function setRateLimitHeaders(
+  res: NextApiResponse,
+  results: RateLimitResult[],
+  now = Date.now()
+) {
+  const strictest = results.reduce((a, b) =>
+    !b.allowed && a.allowed
+      ? b
+      : a.allowed === b.allowed && b.remaining < a.remaining
+      ? b
+      : a
+  );
+  const resetSeconds = Math.max(0, Math.ceil((strictest.resetAt - now) / 1000));
+
+  res.setHeader('RateLimit-Limit', String(strictest.limit));
+  res.setHeader('RateLimit-Remaining', String(strictest.remaining));
+  res.setHeader('RateLimit-Reset', String(resetSeconds));
+  if (!strictest.allowed) {
+    res.setHeader('Retry-After', String(resetSeconds));
+  }
+  return { allowed: strictest.allowed, retryAfter: resetSeconds };
+}
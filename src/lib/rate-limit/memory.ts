@@ -0,0 +1,30 @@
+import { RateLimitCounter, RateLimitStore } from './types';
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>();
+  let nextSweep = 0;
+
+  // Drop expired windows now and then so the map doesn't grow unbounded.
+  const sweep = (now: number) => {
+    if (now < nextSweep) return;
+    nextSweep = now + 60 * 1000;
+    counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) counters.delete(key);
+    });
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now);
+
+      let counter = counters.get(key);
+      if (!counter || counter.resetAt <= now) {
+        counter = { count: 0, resetAt: now + windowMs };
+        counters.set(key, counter);
+      }
+      counter.count++;
+      return { ...counter };
+    },
+  };
+}
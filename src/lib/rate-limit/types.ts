@@ -0,0 +1,19 @@
+export type RateLimitCounter = {
+  count: number;
+  // Epoch milliseconds at which the current window ends.
+  resetAt: number;
+};
+
+// Counts hits per key in fixed windows. The in-memory store only limits a
+// single server instance; deployments with several instances should provide
+// a shared implementation (e.g. backed by Redis) with the same interface.
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
@@ -0,0 +1,29 @@
+import { randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+// Carries the id across the browser redirects of the share flow (landing
+// page → `/r/<id>` → passphrase page → preview), which can't set headers.
+export const REQUEST_ID_PARAM = 'rid';
+
+export function isValidRequestId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(id);
+}
+
+// Resolves the correlation id of a request: `passedOn` from an earlier step
+// of the share flow (the `rid` parameter), else the one set by a proxy, else
+// a new one. It's echoed in the `X-Request-Id` response header.
+export function getRequestId(
+  req: IncomingMessage,
+  res?: ServerResponse,
+  passedOn?: unknown
+): string {
+  const header = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+  const requestId = isValidRequestId(passedOn)
+    ? passedOn
+    : isValidRequestId(header)
+    ? header
+    : randomBytes(12).toString('base64url');
+  res?.setHeader(REQUEST_ID_HEADER, requestId);
+  return requestId;
+}
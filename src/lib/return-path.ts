@@ -0,0 +1,30 @@
+const MAX_RETURN_PATH_LENGTH = 2048;
+
+// The base for resolving return paths. Anything that resolves elsewhere
+// wasn't a same-origin relative path.
+const ORIGIN = 'http://return-path.invalid';
+
+// Validates a `next` query parameter for redirecting back after an action.
+// Only same-origin, root-relative paths to pages are accepted, which rules
+// out open redirects like `//evil.example` or `/\evil.example`. API routes
+// are refused too, so a redirect can't trigger another action. Returns
+// `null` for anything else.
+export function safeReturnPath(value: unknown): string | null {
+  if (
+    typeof value !== 'string' ||
+    value.length > MAX_RETURN_PATH_LENGTH ||
+    !value.startsWith('/') ||
+    /[\\\u0000-\u001f\u007f]/.test(value)
+  ) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, ORIGIN);
+  } catch {
+    return null;
+  }
+  if (url.origin !== ORIGIN || url.pathname.startsWith('/api/')) return null;
+  return url.pathname + url.search + url.hash;
+}
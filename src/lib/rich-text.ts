@@ -0,0 +1,98 @@
+import type { ValidElementTypes } from '../components/malleable';
+
+// A serializable subset of the Slate document model, shared between the
+// editor, the preview renderer and server-side validation.
+
+export type RichMark = 'bold' | 'italic' | 'code';
+
+export const RICH_MARKS: readonly RichMark[] = ['bold', 'italic', 'code'];
+
+// Line breaks within a block are stored as `\n` in the text itself, the same
+// way Slate inserts soft breaks.
+export type RichLeaf = { text: string } & { [mark in RichMark]?: boolean };
+
+export type RichLink = { type: 'link'; url: string; children: RichLeaf[] };
+
+export type RichInline = RichLeaf | RichLink;
+
+// Headings reuse the heading `ValidElementTypes` below the page (`h1`) and
+// section (`h2`) titles, which are fields of their own.
+export type RichHeadingType = 'h3' | 'h4';
+
+export type RichTextBlockType = 'paragraph' | RichHeadingType;
+
+export type RichListType = 'bulleted-list' | 'numbered-list';
+
+export type RichTextBlock = { type: RichTextBlockType; children: RichInline[] };
+
+export type RichListItem = { type: 'list-item'; children: RichInline[] };
+
+export type RichList = { type: RichListType; children: RichListItem[] };
+
+export type RichBlock = RichTextBlock | RichList;
+
+export type RichDocument = RichBlock[];
+
+export const RICH_HEADING_TYPES: readonly RichHeadingType[] = ['h3', 'h4'];
+
+export const RICH_TEXT_BLOCK_TYPES: readonly RichTextBlockType[] = [
+  'paragraph',
+  ...RICH_HEADING_TYPES,
+];
+
+export const RICH_LIST_TYPES: readonly RichListType[] = [
+  'bulleted-list',
+  'numbered-list',
+];
+
+// What a field of the given element may contain. Headings and lists only
+// make sense inside body (`div`) fields; nesting them in a title or an
+// inline `span` would produce invalid HTML, and `<pre>` fields are kept
+// verbatim. The editor only offers these formats, and the server rejects
+// documents using any other.
+export function formatsFor(As: ValidElementTypes) {
+  return {
+    marks: As !== 'pre',
+    blocks: As === 'div',
+    links: As !== 'pre',
+  };
+}
+
+export function isLink(node: RichInline): node is RichLink {
+  return (node as RichLink).type === 'link';
+}
+
+export function isList(node: RichBlock): node is RichList {
+  return RICH_LIST_TYPES.includes(node.type as RichListType);
+}
+
+// Upgrades a plain-text (legacy) field into a single paragraph.
+export function textToDocument(text: string): RichDocument {
+  return [{ type: 'paragraph', children: [{ text }] }];
+}
+
+// Flattens a document the way `innerText` would: blocks are separated by
+// line breaks and formatting is dropped.
+export function documentToText(document: RichDocument): string {
+  const inlinesToText = (inlines: RichInline[]) =>
+    inlines
+      .map((inline) =>
+        isLink(inline)
+          ? inline.children.map((leaf) => leaf.text).join('')
+          : inline.text
+      )
+      .join('');
+
+  return document
+    .map((block) =>
+      isList(block)
+        ? block.children.map((item) => inlinesToText(item.children)).join('\n')
+        : inlinesToText(block.children)
+    )
+    .join('\n');
+}
+
+// Only allow URL schemes that can't execute script when rendered as `href`.
+export function isSafeUrl(url: string) {
+  return /^(https?:\/\/|mailto:|\/(?!\/)|#)/i.test(url);
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createShortLink,
+  generateSnapshotId,
+  resolveShareId,
+} from './share-links';
+
+describe('short links', () => {
+  afterEach(() => {
+    delete process.env.AUTH_SECRET;
+  });
+
+  it('resolves a signed alias to its snapshot', async () => {
+    const snapshotId = generateSnapshotId();
+    const alias = await createShortLink(snapshotId);
+    expect(alias).toMatch(/^[A-Za-z0-9_-]{11}$/);
+    expect(await resolveShareId(alias)).toBe(snapshotId);
+  });
+
+  it('ignores aliases with a forged signature', async () => {
+    const snapshotId = generateSnapshotId();
+    const alias = await createShortLink(snapshotId);
+    const last = alias.slice(-1);
+    const forged = alias.slice(0, -1) + (last === 'A' ? 'B' : 'A');
+    expect(await resolveShareId(forged)).toBe(forged);
+  });
+
+  it('ignores aliases signed with another secret', async () => {
+    process.env.AUTH_SECRET = 'one secret';
+    const snapshotId = generateSnapshotId();
+    const alias = await createShortLink(snapshotId);
+
+    process.env.AUTH_SECRET = 'another secret';
+    expect(await resolveShareId(alias)).toBe(alias);
+  });
+
+  it('passes snapshot ids through and rejects invalid ids', async () => {
+    const snapshotId = generateSnapshotId();
+    expect(await resolveShareId(snapshotId)).toBe(snapshotId);
+    expect(await resolveShareId('../etc/passwd')).toBeNull();
+    expect(await resolveShareId(42)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { getSecret } from './auth/session';
+import { logWarning } from './log';
+import { consume, getClientIp, RateLimitRule } from './rate-limit';
+import { getSnapshotStore, isValidId } from './snapshot-store';
+
+// Random ids collide so rarely that a few attempts always suffice; running
+// out of them means something else is wrong.
+const MAX_ATTEMPTS = 5;
+
+// Share links that lead nowhere, per address. Someone following real links
+// hardly ever hits one; someone guessing ids hits little else.
+const MISS_LIMIT: RateLimitRule = {
+  name: 'share-miss:ip',
+  limit: 20,
+  windowMs: 10 * 60 * 1000,
+};
+
+// 128 random bits: unguessable, and too many to enumerate. Snapshots saved
+// before these ids were introduced keep their shorter `shortid` ids.
+export function generateSnapshotId() {
+  return randomBytes(16).toString('base64url');
+}
+
+// Stores a new snapshot under a fresh id, never overwriting an existing one.
+// Resolves to the id.
+export async function createSnapshot(snapshot: unknown): Promise<string> {
+  const store = getSnapshotStore();
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const snapshotId = generateSnapshotId();
+    if (await store.create(snapshotId, snapshot)) return snapshotId;
+  }
+  throw new Error('Could not find an unused snapshot id.');
+}
+
+// Short links are a random code followed by its truncated signature, so
+// guessed links are turned away without a storage lookup.
+const CODE_LENGTH = 7;
+const SIGNATURE_LENGTH = 4;
+
+// Derived from the session secret rather than reusing it, so a signature
+// made for one purpose can never be replayed for the other.
+const signingKey = () =>
+  createHmac('sha256', getSecret()).update('short-links').digest();
+
+const signCode = (code: string) =>
+  createHmac('sha256', signingKey())
+    .update(`short-link:${code}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+
+function isSignedAlias(alias: string) {
+  if (alias.length !== CODE_LENGTH + SIGNATURE_LENGTH) return false;
+  const expected = Buffer.from(signCode(alias.slice(0, CODE_LENGTH)));
+  const actual = Buffer.from(alias.slice(CODE_LENGTH));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Creates the friendly alias of a snapshot's share link, `/s/<alias>`.
+export async function createShortLink(snapshotId: string): Promise<string> {
+  const store = getSnapshotStore('short-links');
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const code = randomBytes(8).toString('base64url').slice(0, CODE_LENGTH);
+    const alias = code + signCode(code);
+    if (await store.create(alias, { snapshotId })) return alias;
+  }
+  throw new Error('Could not find an unused short link.');
+}
+
+export function deleteShortLink(alias: string) {
+  return getSnapshotStore('short-links').delete(alias);
+}
+
+// Resolves the id in a share link, which may be a snapshot id (including
+// legacy `shortid` ones) or a short link alias. Resolves to `null` for
+// anything that can't be a snapshot.
+export async function resolveShareId(id: unknown): Promise<string | null> {
+  if (!isValidId(id)) return null;
+  if (isSignedAlias(id)) {
+    const link = await getSnapshotStore('short-links').get<{
+      snapshotId: string;
+    }>(id);
+    if (link) return link.snapshotId;
+  }
+  return id;
+}
+
+// Counts a share link that led nowhere. Resolves to `false` once the client
+// has followed too many of them, which looks like enumeration: the request
+// should then be rejected.
+export async function recordShareMiss(
+  req: IncomingMessage,
+  requestId?: string
+) {
+  const ip = getClientIp(req);
+  const { allowed } = await consume(MISS_LIMIT, ip);
+  if (!allowed) {
+    logWarning('share.enumeration_suspected', { requestId, ip });
+  }
+  return allowed;
+}
@@ -0,0 +1,184 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { getSnapshotStore } from './snapshot-store';
+
+// Optional protections for a share link, stored next to (rather than inside)
+// the snapshot because the view count changes after the snapshot is written.
+export type ShareSettings = {
+  // Proves the right to change these settings; handed to the author when the
+  // snapshot is saved.
+  manageTokenHash: string;
+  expiresAt: string | null;
+  maxViews: number | null;
+  views: number;
+  passphraseHash: string | null;
+};
+
+export type ShareAccess = 'ok' | 'expired' | 'exhausted';
+
+export const MAX_VIEWS_LIMIT = 1000000;
+
+const store = () => getSnapshotStore('share-settings');
+
+function scryptAsync(secret: string, salt: Buffer) {
+  return new Promise<Buffer>((resolve, reject) =>
+    scrypt(secret, salt, 32, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+}
+
+// Hashes a secret as `<salt>:<key>`, both hex-encoded.
+export async function hashSecret(secret: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(secret, salt);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifySecret(secret: string, hash: string) {
+  const [salt, key] = hash.split(':');
+  if (!salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(secret, Buffer.from(salt, 'hex'));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Creates unprotected settings for a new snapshot and returns the token that
+// lets its author protect it later.
+export async function createShareSettings(snapshotId: string) {
+  const manageToken = randomBytes(24).toString('base64url');
+  const settings: ShareSettings = {
+    manageTokenHash: await hashSecret(manageToken),
+    expiresAt: null,
+    maxViews: null,
+    views: 0,
+    passphraseHash: null,
+  };
+  await store().put(snapshotId, settings);
+  return manageToken;
+}
+
+// Hands out a new token for a snapshot's settings, invalidating the old one.
+// Only hashes are stored, so this is the only way to return a token again.
+export async function resetManageToken(snapshotId: string) {
+  const settings = await getShareSettings(snapshotId);
+  if (!settings) return createShareSettings(snapshotId);
+  const manageToken = randomBytes(24).toString('base64url');
+  await putShareSettings(snapshotId, {
+    ...settings,
+    manageTokenHash: await hashSecret(manageToken),
+  });
+  return manageToken;
+}
+
+// Snapshots saved before share settings existed have none, and are
+// unprotected.
+export function getShareSettings(snapshotId: string) {
+  return store().get<ShareSettings>(snapshotId);
+}
+
+export function putShareSettings(snapshotId: string, settings: ShareSettings) {
+  return store().put(snapshotId, settings);
+}
+
+// Whether a link may still be opened. View limits are only enforced when a
+// view is about to be counted, i.e. when entering preview mode.
+export function checkShareAccess(
+  settings: ShareSettings | null,
+  { countingView }: { countingView: boolean },
+  now: Date = new Date()
+): ShareAccess {
+  if (!settings) return 'ok';
+  if (settings.expiresAt && new Date(settings.expiresAt) <= now) {
+    return 'expired';
+  }
+  if (
+    countingView &&
+    settings.maxViews != null &&
+    settings.views >= settings.maxViews
+  ) {
+    return 'exhausted';
+  }
+  return 'ok';
+}
+
+// Counts a view. This is a read-modify-write, so concurrent views may
+// occasionally be under-counted; good enough for a soft limit.
+export async function recordShareView(
+  snapshotId: string,
+  settings: ShareSettings | null
+) {
+  if (!settings) return;
+  await putShareSettings(snapshotId, {
+    ...settings,
+    views: settings.views + 1,
+  });
+}
+
+export const SHARE_ACCESS_MESSAGES: Record<
+  Exclude<ShareAccess, 'ok'>,
+  string
+> = {
+  expired: 'This share link has expired. Ask its author for a new one.',
+  exhausted:
+    'This share link has reached its maximum number of views. Ask its author for a new one.',
+};
+
+type SettingsUpdate = {
+  expiresAt: string | null;
+  maxViews: number | null;
+  // `undefined` keeps the current passphrase, `null` removes it.
+  passphrase?: string | null;
+};
+
+// Validates the protections submitted from `ShareLinkDialog`.
+export function validateSettingsUpdate(
+  body: unknown,
+  now: Date = new Date()
+): { ok: true; update: SettingsUpdate } | { ok: false; errors: string[] } {
+  const { expiresAt, maxViews, passphrase } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const errors: string[] = [];
+  const update: SettingsUpdate = { expiresAt: null, maxViews: null };
+
+  if (expiresAt != null && expiresAt !== '') {
+    const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push('expiresAt: expected a date.');
+    } else if (date <= now) {
+      errors.push('expiresAt: must be in the future.');
+    } else {
+      update.expiresAt = date.toISOString();
+    }
+  }
+
+  if (maxViews != null && maxViews !== '') {
+    if (
+      typeof maxViews !== 'number' ||
+      !Number.isInteger(maxViews) ||
+      maxViews < 1 ||
+      maxViews > MAX_VIEWS_LIMIT
+    ) {
+      errors.push(
+        `maxViews: expected a whole number from 1 to ${MAX_VIEWS_LIMIT}.`
+      );
+    } else {
+      update.maxViews = maxViews;
+    }
+  }
+
+  if (passphrase === null || passphrase === '') {
+    update.passphrase = null;
+  } else if (passphrase !== undefined) {
+    if (
+      typeof passphrase !== 'string' ||
+      passphrase.length < 4 ||
+      passphrase.length > 200
+    ) {
+      errors.push('passphrase: expected 4 to 200 characters.');
+    } else {
+      update.passphrase = passphrase;
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, update };
+}
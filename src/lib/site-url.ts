@@ -0,0 +1,12 @@
+// The public origin of the site, such as `https://preview.example.com`, for
+// URLs that must be absolute (link preview images). It comes from `SITE_URL`
+// rather than the request's `Host` or `X-Forwarded-Host`, which any client can
+// set.
+export function getSiteOrigin() {
+  const url = process.env.SITE_URL;
+  if (url) return new URL(url).origin;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SITE_URL must be set in production.');
+  }
+  return 'http://localhost:3000';
+}
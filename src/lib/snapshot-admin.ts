@@ -0,0 +1,146 @@
+import type { FieldEdit } from '../components/malleable';
+import { getPage } from '../content/pages';
+import { forgetSnapshotCard } from './og-image';
+import { getPublishedEdits } from './publish';
+import {
+  checkShareAccess,
+  getShareSettings,
+  ShareAccess,
+} from './share-settings';
+import { countChangedFields, readSnapshot, SnapshotAuthor } from './snapshot';
+import {
+  getSnapshotStore,
+  SnapshotEntry,
+  StoreNamespace,
+} from './snapshot-store';
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// A search stops after scanning this many stored snapshots, and returns a
+// cursor to continue from, so one request never walks the whole bucket.
+const MAX_SCANNED = 1000;
+
+// One row of the admin dashboard.
+export type SnapshotSummary = {
+  id: string;
+  size: number;
+  lastModified: string;
+  // `null` when the stored snapshot can't be read.
+  page: string | null;
+  label: string | null;
+  createdAt: string | null;
+  author: SnapshotAuthor | null;
+  // Fields whose text differs from the published page.
+  fieldCount: number | null;
+  views: number;
+  maxViews: number | null;
+  expiresAt: string | null;
+  hasPassphrase: boolean;
+  access: ShareAccess;
+};
+
+// Published edits by page slug, loaded once per listing.
+type PublishedCache = Map<string, Promise<FieldEdit[]>>;
+
+async function summarize(
+  entry: SnapshotEntry,
+  published: PublishedCache
+): Promise<SnapshotSummary> {
+  const [stored, settings] = await Promise.all([
+    getSnapshotStore().get(entry.id),
+    getShareSettings(entry.id),
+  ]);
+  const result = readSnapshot(stored);
+  const snapshot = result.ok === true ? result.snapshot : null;
+  let fieldCount: number | null = null;
+  if (snapshot) {
+    const page = getPage(snapshot.page);
+    if (!published.has(page.slug)) {
+      published.set(page.slug, getPublishedEdits(page));
+    }
+    fieldCount = countChangedFields(
+      page,
+      snapshot.edits,
+      await published.get(page.slug)
+    );
+  }
+  return {
+    ...entry,
+    page: snapshot?.page ?? null,
+    label: snapshot?.label ?? null,
+    createdAt: snapshot?.createdAt ?? null,
+    author: snapshot?.author ?? null,
+    fieldCount,
+    views: settings?.views ?? 0,
+    maxViews: settings?.maxViews ?? null,
+    expiresAt: settings?.expiresAt ?? null,
+    hasPassphrase: !!settings?.passphraseHash,
+    access: checkShareAccess(settings, { countingView: false }),
+  };
+}
+
+function matches(summary: SnapshotSummary, query: string) {
+  return [summary.id, summary.page, summary.label, summary.author?.name].some(
+    (value) => value?.toLowerCase().includes(query)
+  );
+}
+
+// Lists snapshots in storage order, one storage page at a time. A `query`
+// filters by id, page, label or author; it may return fewer than `limit`
+// results alongside a `cursor` when the scan limit is reached.
+export async function listSnapshotSummaries({
+  cursor,
+  limit = DEFAULT_PAGE_SIZE,
+  query = '',
+}: {
+  cursor?: string;
+  limit?: number;
+  query?: string;
+}): Promise<{ snapshots: SnapshotSummary[]; cursor: string | null }> {
+  const needle = query.trim().toLowerCase();
+  const snapshots: SnapshotSummary[] = [];
+  const published: PublishedCache = new Map();
+  let scanned = 0;
+  do {
+    const listing = await getSnapshotStore().list({ cursor, limit });
+    const summaries = await Promise.all(
+      listing.entries.map((entry) => summarize(entry, published))
+    );
+    snapshots.push(...summaries.filter((s) => !needle || matches(s, needle)));
+    scanned += listing.entries.length;
+    cursor = listing.cursor;
+  } while (cursor && snapshots.length < limit && scanned < MAX_SCANNED);
+
+  return { snapshots, cursor: cursor ?? null };
+}
+
+// Deletes the objects in `namespace` that point at `snapshotId`. Short links
+// and idempotency records are keyed by alias and request key, so finding a
+// snapshot's means reading through the whole namespace.
+async function deleteReferences(namespace: StoreNamespace, snapshotId: string) {
+  const store = getSnapshotStore(namespace);
+  let cursor: string | undefined;
+  do {
+    const listing = await store.list({ cursor });
+    await Promise.all(
+      listing.entries.map(async ({ id }) => {
+        const value = await store.get<{ snapshotId?: string }>(id);
+        if (value?.snapshotId === snapshotId) await store.delete(id);
+      })
+    );
+    cursor = listing.cursor;
+  } while (cursor);
+}
+
+// Removes a snapshot along with its share settings, comments, short links and
+// idempotency records. Share links to it render the "does not exist" error
+// afterwards, and a retried save creates a new snapshot.
+export async function deleteSnapshot(snapshotId: string) {
+  await getSnapshotStore().delete(snapshotId);
+  await getSnapshotStore('share-settings').delete(snapshotId);
+  await getSnapshotStore('comments').delete(snapshotId);
+  await deleteReferences('short-links', snapshotId);
+  await deleteReferences('idempotency', snapshotId);
+  forgetSnapshotCard(snapshotId);
+}
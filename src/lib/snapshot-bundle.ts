@@ -0,0 +1,218 @@
+import type { FieldEdit } from '../components/malleable';
+import { ContentPage, getPage, pageFieldElements } from '../content/pages';
+import { documentToMarkdown, markdownToDocument } from './markdown';
+import { RichDocument, textToDocument } from './rich-text';
+import { MAX_LABEL_LENGTH, Snapshot, SnapshotAuthor } from './snapshot';
+import { validateEdits } from './validate-edits';
+
+// Identifies exported snapshots, so arbitrary JSON isn't mistaken for one.
+export const BUNDLE_FORMAT = 'next-preview-snapshot';
+// Bump when the bundle shape changes; imports reject newer versions.
+export const BUNDLE_VERSION = 1;
+
+export type BundleFormat = 'json' | 'markdown';
+
+// A snapshot as downloaded from the export endpoint, to be imported in
+// another environment.
+export type SnapshotBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  snapshot: {
+    id: string;
+    page: string;
+    label: string | null;
+    createdAt: string | null;
+    author: SnapshotAuthor | null;
+    edits: FieldEdit[];
+  };
+};
+
+// The documents of an imported bundle, ready to be loaded into the editors.
+export type ImportedDraft = {
+  label: string;
+  documents: { id: string; document: RichDocument }[];
+};
+
+// Edits in page order, so the Markdown reads like the page.
+function sortEdits(page: ContentPage | undefined, edits: FieldEdit[]) {
+  const order = (page?.fields ?? []).map(({ id }) => id);
+  const position = (id: string) =>
+    order.includes(id) ? order.indexOf(id) : order.length;
+  return [...edits].sort((a, b) => position(a.id) - position(b.id));
+}
+
+export function createBundle(
+  snapshotId: string,
+  snapshot: Snapshot,
+  now: Date = new Date()
+): SnapshotBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    snapshot: {
+      id: snapshotId,
+      page: snapshot.page,
+      label: snapshot.label,
+      createdAt: snapshot.createdAt,
+      author: snapshot.author,
+      edits: sortEdits(getPage(snapshot.page), snapshot.edits),
+    },
+  };
+}
+
+// Renders a bundle as Markdown: a front matter header, then one `##` section
+// per field, named after the field id.
+export function bundleToMarkdown({
+  format,
+  version,
+  exportedAt,
+  snapshot,
+}: SnapshotBundle): string {
+  const header = [
+    ['format', format],
+    ['version', version],
+    ['snapshot', snapshot.id],
+    ['page', snapshot.page],
+    ['label', snapshot.label],
+    ['created', snapshot.createdAt],
+    ['author', snapshot.author?.name],
+    ['exported', exportedAt],
+  ]
+    .filter(([, value]) => value != null)
+    .map(([key, value]) => `${key}: ${value}`);
+
+  const sections = snapshot.edits.map(
+    ({ id, innerText, document }) =>
+      `## ${id}\n\n${documentToMarkdown(document ?? textToDocument(innerText))}`
+  );
+
+  return ['---', ...header, '---', '', sections.join('\n\n'), ''].join('\n');
+}
+
+type ParsedBundle = {
+  version: unknown;
+  page: unknown;
+  label: unknown;
+  edits: unknown;
+};
+
+function parseJsonBundle(text: string, errors: string[]): ParsedBundle | null {
+  let bundle: Record<string, unknown>;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    errors.push('The file is not valid JSON.');
+    return null;
+  }
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    errors.push('format: expected an exported snapshot.');
+    return null;
+  }
+  const { page, label, edits } = (bundle.snapshot ?? {}) as Record<
+    string,
+    unknown
+  >;
+  return { version: bundle.version, page, label, edits };
+}
+
+function parseMarkdownBundle(
+  text: string,
+  errors: string[]
+): ParsedBundle | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const end = lines.indexOf('---', 1);
+  if (lines[0] !== '---' || end === -1) {
+    errors.push('Expected a JSON or Markdown bundle.');
+    return null;
+  }
+
+  const header: Record<string, string> = {};
+  lines.slice(1, end).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    header[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  if (header.format !== BUNDLE_FORMAT) {
+    errors.push('format: expected an exported snapshot.');
+    return null;
+  }
+
+  const edits: { id: string; document: RichDocument }[] = [];
+  let body: string[] = null;
+  const flush = () => {
+    if (!body) return;
+    edits[edits.length - 1].document = markdownToDocument(body.join('\n'));
+  };
+  lines.slice(end + 1).forEach((line) => {
+    const section = /^## (.+)$/.exec(line);
+    if (section) {
+      flush();
+      edits.push({ id: section[1].trim(), document: null });
+      body = [];
+    } else if (body) {
+      body.push(line);
+    }
+  });
+  flush();
+
+  return {
+    version: Number(header.version),
+    page: header.page,
+    label: header.label,
+    edits,
+  };
+}
+
+// Reads an uploaded bundle, JSON or Markdown, and validates it against the
+// page it's being imported into.
+export function readBundle(
+  text: string,
+  page: ContentPage
+): { ok: true; draft: ImportedDraft } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const bundle = text.trimStart().startsWith('{')
+    ? parseJsonBundle(text, errors)
+    : parseMarkdownBundle(text.trimStart(), errors);
+  if (!bundle) return { ok: false, errors };
+
+  if (bundle.version !== BUNDLE_VERSION) {
+    errors.push(
+      typeof bundle.version === 'number' && bundle.version > BUNDLE_VERSION
+        ? 'version: exported by a newer version of this site.'
+        : 'version: unsupported bundle version.'
+    );
+  }
+  if (bundle.page !== page.slug) {
+    errors.push(
+      `page: exported from "${String(bundle.page)}", not "${page.slug}".`
+    );
+  }
+  if (errors.length) return { ok: false, errors };
+
+  const result = validateEdits(bundle.edits, pageFieldElements(page));
+  if (result.ok === false) {
+    return {
+      ok: false,
+      errors: result.errors.map((error) =>
+        error.startsWith('[') ? `edits${error}` : error
+      ),
+    };
+  }
+
+  const label =
+    typeof bundle.label === 'string'
+      ? bundle.label.replace(/\s+/g, ' ').trim().slice(0, MAX_LABEL_LENGTH)
+      : '';
+  return {
+    ok: true,
+    draft: {
+      label,
+      documents: result.edits.map(({ id, innerText, document }) => ({
+        id,
+        document: document ?? textToDocument(innerText),
+      })),
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { createCachedStore } from './cache';
+import { createMemoryStore } from './memory';
+
+// Each test gets its own backing store and cache state.
+function setup(options: Parameters<typeof createCachedStore>[1]) {
+  const store = createMemoryStore('snapshots', new Map());
+  const get = vi.spyOn(store, 'get');
+  const cached = createCachedStore(store, options, {
+    entries: new Map(),
+    diskIds: null,
+    stats: {
+      memoryHits: 0,
+      diskHits: 0,
+      negativeHits: 0,
+      misses: 0,
+      evictions: 0,
+    },
+  });
+  return { store, get, cached };
+}
+
+describe('createCachedStore', () => {
+  it('evicts the least recently used snapshot', async () => {
+    const { store, get, cached } = setup({ maxEntries: 2 });
+    await Promise.all(['a', 'b', 'c'].map((id) => store.put(id, { id })));
+
+    await cached.get('a');
+    await cached.get('b');
+    await cached.get('a');
+    await cached.get('c');
+    expect(cached.getStats()).toMatchObject({ evictions: 1, entries: 2 });
+
+    get.mockClear();
+    await cached.get('a');
+    await cached.get('c');
+    expect(get).not.toHaveBeenCalled();
+    await cached.get('b');
+    expect(get).toHaveBeenCalledWith('b');
+  });
+
+  it('remembers missing ids until they are created', async () => {
+    const { get, cached } = setup({ maxEntries: 10 });
+    expect(await cached.get('missing')).toBeNull();
+    expect(await cached.exists('missing')).toBe(false);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(cached.getStats().negativeHits).toBe(1);
+
+    await cached.create('missing', { id: 'missing' });
+    expect(await cached.get('missing')).toEqual({ id: 'missing' });
+  });
+
+  it('shares one read between concurrent requests', async () => {
+    const { store, get, cached } = setup({ maxEntries: 10 });
+    await store.put('a', { id: 'a' });
+    await Promise.all([cached.get('a'), cached.get('a')]);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands out frozen snapshots', async () => {
+    const { store, cached } = setup({ maxEntries: 10 });
+    await store.put('a', { edits: [{ id: 'title' }] });
+    const snapshot = await cached.get<{ edits: object[] }>('a');
+    expect(Object.isFrozen(snapshot.edits[0])).toBe(true);
+  });
+
+  it('forgets deleted snapshots', async () => {
+    const { store, cached } = setup({ maxEntries: 10 });
+    await store.put('a', { id: 'a' });
+    await cached.get('a');
+    await cached.delete('a');
+    expect(await cached.get('a')).toBeNull();
+  });
+
+  it('serves evicted snapshots from the disk tier while fresh', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-test-'));
+    try {
+      const { store, get, cached } = setup({
+        maxEntries: 1,
+        directory,
+        ttl: 60 * 1000,
+      });
+      await store.put('a', { id: 'a' });
+      await store.put('b', { id: 'b' });
+      await cached.get('a');
+      await cached.get('b');
+      // Disk writes happen in the background.
+      await vi.waitFor(async () =>
+        expect((await fs.readdir(directory)).sort()).toEqual([
+          'a.json',
+          'b.json',
+        ])
+      );
+
+      get.mockClear();
+      expect(await cached.get('a')).toEqual({ id: 'a' });
+      expect(get).not.toHaveBeenCalled();
+      expect(cached.getStats().diskHits).toBe(1);
+
+      // A stale file doesn't count as existing, and is removed.
+      const old = new Date(Date.now() - 2 * 60 * 1000);
+      await fs.utimes(path.join(directory, 'b.json'), old, old);
+      await cached.get('a');
+      await store.delete('b');
+      expect(await cached.exists('b')).toBe(false);
+      expect(await fs.readdir(directory)).toEqual(['a.json']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logWarning } from '../log';
+import { assertValidId, SnapshotStore } from './types';
+
+export type SnapshotCacheOptions = {
+  // Snapshots (and missing ids) kept in memory, least recently used first out.
+  maxEntries: number;
+  // Where to keep a larger second tier of snapshots on local disk, if at all.
+  directory?: string;
+  maxDiskEntries?: number;
+  // How long a cached snapshot is trusted. Snapshots never change, but may be
+  // deleted through another server instance, which this one doesn't hear of.
+  ttl?: number;
+  // How long an id is remembered as missing.
+  negativeTtl?: number;
+};
+
+export type SnapshotCacheStats = {
+  memoryHits: number;
+  diskHits: number;
+  // Reads answered by a remembered missing id.
+  negativeHits: number;
+  // Reads that went to the underlying store.
+  misses: number;
+  evictions: number;
+  entries: number;
+  diskEntries: number;
+};
+
+type CacheEntry =
+  | { value: unknown; expiresAt: number }
+  | { value: null; expiresAt: number; isMissing: true };
+
+type CacheState = {
+  entries: Map<string, CacheEntry>;
+  // Ids with a file in the disk tier, least recently used first. `null` until
+  // the directory has been read.
+  diskIds: Map<string, true> | null;
+  stats: Omit<SnapshotCacheStats, 'entries' | 'diskEntries'>;
+};
+
+const DEFAULT_TTL = 60 * 60 * 1000;
+const DEFAULT_NEGATIVE_TTL = 30 * 1000;
+
+declare global {
+  var __snapshotCache: CacheState | undefined;
+}
+
+// Next.js re-evaluates modules during development (and bundles pages and API
+// routes separately), so keep the state on the global object: a snapshot
+// deleted through the API must not linger in the cache used by pages.
+const globalState = (global.__snapshotCache ??= {
+  entries: new Map(),
+  diskIds: null,
+  stats: {
+    memoryHits: 0,
+    diskHits: 0,
+    negativeHits: 0,
+    misses: 0,
+    evictions: 0,
+  },
+});
+
+// Cached snapshots are shared by every request reading them, so they must
+// not be changed in place.
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(Object.freeze(value)).forEach(deepFreeze);
+  }
+  return value;
+}
+
+// Wraps a snapshot store with a bounded LRU cache of reads, optionally backed
+// by a disk tier. Only suitable for collections whose objects are never
+// overwritten, like snapshots: writes through other stores aren't noticed.
+export function createCachedStore(
+  store: SnapshotStore,
+  {
+    maxEntries,
+    directory,
+    maxDiskEntries = maxEntries * 10,
+    ttl = DEFAULT_TTL,
+    negativeTtl = DEFAULT_NEGATIVE_TTL,
+  }: SnapshotCacheOptions,
+  state: CacheState = globalState
+): SnapshotStore & { getStats: () => SnapshotCacheStats } {
+  const { entries, stats } = state;
+  // Concurrent reads of the same uncached id share one request to the store.
+  const pending = new Map<string, Promise<unknown>>();
+
+  const remember = (id: string, entry: CacheEntry) => {
+    entries.delete(id);
+    entries.set(id, entry);
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value);
+      stats.evictions++;
+    }
+  };
+
+  const fileFor = (id: string) => {
+    assertValidId(id);
+    return path.join(directory, `${id}.json`);
+  };
+
+  async function getDiskIds() {
+    if (!state.diskIds) {
+      const files = await fs.readdir(directory).catch(() => [] as string[]);
+      state.diskIds ??= new Map(
+        files
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => [file.slice(0, -'.json'.length), true])
+      );
+    }
+    return state.diskIds;
+  }
+
+  // Whether `id` has a file in the disk tier that's still fresh. Stale files
+  // are removed.
+  async function hasFreshDisk(id: string) {
+    if (!(await getDiskIds()).has(id)) return false;
+    try {
+      const { mtimeMs } = await fs.stat(fileFor(id));
+      if (mtimeMs + ttl > Date.now()) return true;
+    } catch {
+      // Missing files are forgotten below.
+    }
+    await forgetDisk(id);
+    return false;
+  }
+
+  async function readDisk(id: string) {
+    if (!(await hasFreshDisk(id))) return null;
+    try {
+      const value = JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+      const diskIds = await getDiskIds();
+      diskIds.delete(id);
+      diskIds.set(id, true);
+      return value;
+    } catch {
+      // Unreadable files are replaced by the next write.
+    }
+    await forgetDisk(id);
+    return null;
+  }
+
+  async function writeDisk(id: string, value: unknown) {
+    const diskIds = await getDiskIds();
+    await fs.mkdir(directory, { recursive: true });
+    // Written aside and renamed, so readers never see a partial file.
+    const temporary = `${fileFor(id)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value));
+    await fs.rename(temporary, fileFor(id));
+    diskIds.delete(id);
+    diskIds.set(id, true);
+    while (diskIds.size > maxDiskEntries) {
+      await forgetDisk(diskIds.keys().next().value);
+      stats.evictions++;
+    }
+  }
+
+  async function forgetDisk(id: string) {
+    state.diskIds?.delete(id);
+    await fs.unlink(fileFor(id)).catch(() => {});
+  }
+
+  async function forget(id: string) {
+    entries.delete(id);
+    if (directory) await forgetDisk(id);
+  }
+
+  async function load(id: string) {
+    if (directory) {
+      const value = await readDisk(id);
+      if (value != null) {
+        stats.diskHits++;
+        remember(id, { value: deepFreeze(value), expiresAt: Date.now() + ttl });
+        return value;
+      }
+    }
+
+    stats.misses++;
+    const value = await store.get(id);
+    if (value == null) {
+      remember(id, {
+        value: null,
+        expiresAt: Date.now() + negativeTtl,
+        isMissing: true,
+      });
+      return null;
+    }
+    remember(id, { value: deepFreeze(value), expiresAt: Date.now() + ttl });
+    if (directory) {
+      writeDisk(id, value).catch((error) =>
+        logWarning('snapshot_cache.write_failed', { snapshotId: id, error })
+      );
+    }
+    return value;
+  }
+
+  // The cached entry for `id`, if it's still fresh. Counts as a use.
+  function lookup(id: string) {
+    const entry = entries.get(id);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(id);
+      return null;
+    }
+    remember(id, entry);
+    return entry;
+  }
+
+  return {
+    async get<T>(id: string) {
+      assertValidId(id);
+      const entry = lookup(id);
+      if (entry) {
+        if ('isMissing' in entry) stats.negativeHits++;
+        else stats.memoryHits++;
+        return entry.value as T | null;
+      }
+
+      if (!pending.has(id)) {
+        pending.set(
+          id,
+          load(id).finally(() => pending.delete(id))
+        );
+      }
+      return (await pending.get(id)) as T | null;
+    },
+    async exists(id) {
+      assertValidId(id);
+      const entry = lookup(id);
+      if (entry) {
+        if ('isMissing' in entry) stats.negativeHits++;
+        else stats.memoryHits++;
+        return !('isMissing' in entry);
+      }
+      if (directory && (await hasFreshDisk(id))) {
+        stats.diskHits++;
+        return true;
+      }
+      stats.misses++;
+      const exists = await store.exists(id);
+      if (!exists) {
+        remember(id, {
+          value: null,
+          expiresAt: Date.now() + negativeTtl,
+          isMissing: true,
+        });
+      }
+      return exists;
+    },
+    async put(id, contents) {
+      await store.put(id, contents);
+      await forget(id);
+    },
+    async create(id, contents) {
+      const created = await store.create(id, contents);
+      // Clears a remembered miss for the new id.
+      if (created) await forget(id);
+      return created;
+    },
+    async delete(id) {
+      await store.delete(id);
+      await forget(id);
+    },
+    list(options) {
+      return store.list(options);
+    },
+    getStats() {
+      return {
+        ...stats,
+        entries: entries.size,
+        diskEntries: state.diskIds?.size ?? 0,
+      };
+    },
+  };
+}
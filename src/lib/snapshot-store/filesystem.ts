@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { assertValidId, SnapshotStore } from './types';
+
+// Stores each snapshot as `<directory>/<id>.json`. Intended for local
+// development and CI, where AWS credentials aren't available.
+export function createFilesystemStore(directory: string): SnapshotStore {
+  const fileFor = (id: string) => {
+    assertValidId(id);
+    return path.join(directory, `${id}.json`);
+  };
+
+  return {
+    async put(id, contents) {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(fileFor(id), JSON.stringify(contents));
+    },
+    async create(id, contents) {
+      await fs.mkdir(directory, { recursive: true });
+      try {
+        // `wx` fails if the file already exists.
+        await fs.writeFile(fileFor(id), JSON.stringify(contents), {
+          flag: 'wx',
+        });
+        return true;
+      } catch (e) {
+        if (e.code === 'EEXIST') return false;
+        throw e;
+      }
+    },
+    async get(id) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+      } catch (e) {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+    async exists(id) {
+      try {
+        await fs.access(fileFor(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(id) {
+      try {
+        await fs.unlink(fileFor(id));
+      } catch (e) {
+        if (e.code !== 'ENOENT') throw e;
+      }
+    },
+    async list({ cursor, limit = 100 } = {}) {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch (e) {
+        if (e.code === 'ENOENT') return { entries: [] };
+        throw e;
+      }
+
+      const ids = files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length))
+        .sort()
+        .filter((id) => !cursor || id > cursor);
+      const page = ids.slice(0, limit);
+      const entries = await Promise.all(
+        page.map(async (id) => {
+          const stat = await fs.stat(fileFor(id));
+          return {
+            id,
+            size: stat.size,
+            lastModified: stat.mtime.toISOString(),
+          };
+        })
+      );
+      return {
+        entries,
+        cursor: ids.length > limit ? page[page.length - 1] : undefined,
+      };
+    },
+  };
+}
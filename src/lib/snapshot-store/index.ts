@@ -0,0 +1,93 @@
+import path from 'path';
+import { createCachedStore, SnapshotCacheStats } from './cache';
+import { createFilesystemStore } from './filesystem';
+import { createMemoryStore } from './memory';
+import { createS3Store } from './s3';
+import { isValidId, SnapshotStore, StoreNamespace } from './types';
+
+export type { SnapshotCacheStats } from './cache';
+export type {
+  SnapshotEntry,
+  SnapshotListing,
+  SnapshotStore,
+  StoreNamespace,
+} from './types';
+export {
+  createCachedStore,
+  createFilesystemStore,
+  createMemoryStore,
+  createS3Store,
+  isValidId,
+};
+
+const stores = new Map<StoreNamespace, SnapshotStore>();
+let getCacheStats: () => SnapshotCacheStats = null;
+
+const DEFAULT_CACHE_SIZE = 500;
+
+// Returns the snapshot store selected by the `SNAPSHOT_STORE` environment
+// variable:
+//
+// - `s3` (default): the AWS S3 bucket named by `AWS_S3_BUCKET`.
+// - `fs`: JSON files on local disk under `SNAPSHOT_STORE_DIR`.
+// - `memory`: an in-process map, lost on restart. Useful for tests.
+//
+// Namespaces other than `snapshots` are stored under a prefix (S3) or a
+// subdirectory (`fs`) named after the namespace.
+//
+// Snapshots never change once written, so reads of them are cached in memory
+// (up to `SNAPSHOT_CACHE_SIZE` of them; `0` disables the cache), and on local
+// disk under `SNAPSHOT_CACHE_DIR` when it's set.
+export function getSnapshotStore(
+  namespace: StoreNamespace = 'snapshots'
+): SnapshotStore {
+  if (stores.has(namespace)) return stores.get(namespace);
+
+  const isDefault = namespace === 'snapshots';
+  const driver = process.env.SNAPSHOT_STORE || 's3';
+  let store: SnapshotStore;
+  switch (driver) {
+    case 's3':
+      store = createS3Store({
+        bucket: process.env.AWS_S3_BUCKET,
+        accessKeyId: process.env.AWS_S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_S3_SECRET_ACCESS_KEY,
+        prefix: isDefault ? '' : `${namespace}/`,
+      });
+      break;
+    case 'fs': {
+      const root = path.resolve(process.env.SNAPSHOT_STORE_DIR || '.snapshots');
+      store = createFilesystemStore(
+        isDefault ? root : path.join(root, namespace)
+      );
+      break;
+    }
+    case 'memory':
+      store = createMemoryStore(namespace);
+      break;
+    default:
+      throw new Error(`Unknown SNAPSHOT_STORE driver: ${driver}`);
+  }
+
+  const cacheSize = Number(
+    process.env.SNAPSHOT_CACHE_SIZE ?? DEFAULT_CACHE_SIZE
+  );
+  if (isDefault && cacheSize > 0) {
+    const cached = createCachedStore(store, {
+      maxEntries: cacheSize,
+      directory: process.env.SNAPSHOT_CACHE_DIR
+        ? path.resolve(process.env.SNAPSHOT_CACHE_DIR)
+        : undefined,
+    });
+    getCacheStats = cached.getStats;
+    store = cached;
+  }
+  stores.set(namespace, store);
+  return store;
+}
+
+// Hit and miss counts of the snapshot cache, or `null` when it's disabled.
+export function getSnapshotCacheStats(): SnapshotCacheStats | null {
+  getSnapshotStore();
+  return getCacheStats?.() ?? null;
+}
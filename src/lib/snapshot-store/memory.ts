@@ -0,0 +1,65 @@
+import { assertValidId, SnapshotStore } from './types';
+
+type MemoryObject = { body: string; lastModified: Date };
+
+declare global {
+  var __snapshotMemoryStore: Map<string, Map<string, MemoryObject>> | undefined;
+}
+
+// Next.js re-evaluates modules during development, so keep the maps on the
+// global object to survive hot reloads.
+const globalNamespaces = (global.__snapshotMemoryStore ??= new Map());
+
+export function createMemoryStore(
+  namespace = 'snapshots',
+  namespaces: Map<string, Map<string, MemoryObject>> = globalNamespaces
+): SnapshotStore {
+  if (!namespaces.has(namespace)) namespaces.set(namespace, new Map());
+  const objects = namespaces.get(namespace);
+
+  return {
+    async put(id, contents) {
+      assertValidId(id);
+      objects.set(id, {
+        body: JSON.stringify(contents),
+        lastModified: new Date(),
+      });
+    },
+    async create(id, contents) {
+      assertValidId(id);
+      if (objects.has(id)) return false;
+      objects.set(id, {
+        body: JSON.stringify(contents),
+        lastModified: new Date(),
+      });
+      return true;
+    },
+    async get(id) {
+      assertValidId(id);
+      const object = objects.get(id);
+      return object ? JSON.parse(object.body) : null;
+    },
+    async exists(id) {
+      assertValidId(id);
+      return objects.has(id);
+    },
+    async delete(id) {
+      assertValidId(id);
+      objects.delete(id);
+    },
+    async list({ cursor, limit = 100 } = {}) {
+      const ids = Array.from(objects.keys())
+        .sort()
+        .filter((id) => !cursor || id > cursor);
+      const page = ids.slice(0, limit);
+      return {
+        entries: page.map((id) => ({
+          id,
+          size: Buffer.byteLength(objects.get(id).body),
+          lastModified: objects.get(id).lastModified.toISOString(),
+        })),
+        cursor: ids.length > limit ? page[page.length - 1] : undefined,
+      };
+    },
+  };
+}
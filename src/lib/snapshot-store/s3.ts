@@ -0,0 +1,104 @@
+import S3 from 'aws-sdk/clients/s3';
+import { assertValidId, SnapshotStore } from './types';
+
+export function createS3Store({
+  bucket,
+  accessKeyId,
+  secretAccessKey,
+  prefix = '',
+}: {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Key prefix (e.g. `share-settings/`). Snapshots live at the bucket root.
+  prefix?: string;
+}): SnapshotStore {
+  const s3 = new S3({ credentials: { accessKeyId, secretAccessKey } });
+
+  const keyFor = (id: string) => {
+    assertValidId(id);
+    return `${prefix}${id}.json`;
+  };
+
+  // 403 implies 404 in this case, as our IAM user has access to all objects,
+  // but the bucket itself is private.
+  const isMissing = (e) =>
+    e.statusCode === 403 || e.statusCode === 404 || e.code === 'NoSuchKey';
+
+  return {
+    async put(id, contents) {
+      await s3
+        .upload({
+          Bucket: bucket,
+          Key: keyFor(id),
+          Body: JSON.stringify(contents),
+        })
+        .promise();
+    },
+    async create(id, contents) {
+      const request = s3.putObject({
+        Bucket: bucket,
+        Key: keyFor(id),
+        Body: JSON.stringify(contents),
+      });
+      // S3 rejects the write if the key exists. This SDK version doesn't know
+      // the parameter yet, so the header is added by hand.
+      request.on('build', () => {
+        request.httpRequest.headers['If-None-Match'] = '*';
+      });
+      try {
+        await request.promise();
+        return true;
+      } catch (e) {
+        // 409 when a concurrent conditional write to the same key won.
+        if (e.statusCode === 412 || e.statusCode === 409) return false;
+        throw e;
+      }
+    },
+    async get(id) {
+      try {
+        const object = await s3
+          .getObject({ Bucket: bucket, Key: keyFor(id) })
+          .promise();
+        return JSON.parse(object.Body.toString());
+      } catch (e) {
+        if (isMissing(e)) return null;
+        throw e;
+      }
+    },
+    async exists(id) {
+      try {
+        await s3.headObject({ Bucket: bucket, Key: keyFor(id) }).promise();
+        return true;
+      } catch (e) {
+        if (isMissing(e)) return false;
+        throw e;
+      }
+    },
+    async delete(id) {
+      await s3.deleteObject({ Bucket: bucket, Key: keyFor(id) }).promise();
+    },
+    async list({ cursor, limit = 100 } = {}) {
+      const result = await s3
+        .listObjectsV2({
+          Bucket: bucket,
+          Prefix: prefix,
+          // Don't descend into other namespaces' prefixes.
+          Delimiter: '/',
+          MaxKeys: limit,
+          ContinuationToken: cursor,
+        })
+        .promise();
+      return {
+        entries: result.Contents.filter(({ Key }) => Key.endsWith('.json')).map(
+          ({ Key, Size, LastModified }) => ({
+            id: Key.slice(prefix.length, -'.json'.length),
+            size: Size,
+            lastModified: LastModified.toISOString(),
+          })
+        ),
+        cursor: result.IsTruncated ? result.NextContinuationToken : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Independent collections within the same storage backend. Snapshots live in
+// the default `snapshots` namespace; everything else lives in a namespace of
+// its own, keyed by snapshot id (or page slug for `published`, alias for
+// `short-links` and hashed request key for `idempotency`).
+export type StoreNamespace =
+  | 'snapshots'
+  | 'share-settings'
+  | 'published'
+  | 'comments'
+  | 'short-links'
+  | 'idempotency';
+
+export type SnapshotEntry = {
+  id: string;
+  // Size of the serialized snapshot in bytes.
+  size: number;
+  lastModified: string;
+};
+
+export type SnapshotListing = {
+  entries: SnapshotEntry[];
+  // Opaque token to pass back to `list` for the next page, if there is one.
+  cursor?: string;
+};
+
+export interface SnapshotStore {
+  put(id: string, contents: unknown): Promise<void>;
+  // Like `put`, but never overwrites: resolves to `false` when something is
+  // already stored under `id`.
+  create(id: string, contents: unknown): Promise<boolean>;
+  // Resolves to `null` when no snapshot exists under `id`.
+  get<T = unknown>(id: string): Promise<T | null>;
+  exists(id: string): Promise<boolean>;
+  delete(id: string): Promise<void>;
+  list(options?: { cursor?: string; limit?: number }): Promise<SnapshotListing>;
+}
+
+// Snapshot ids end up in object keys and file paths, so we only accept a
+// conservative character set.
+export function isValidId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(id);
+}
+
+export function assertValidId(id: string) {
+  if (!isValidId(id)) {
+    throw new Error(`Invalid snapshot id: ${JSON.stringify(id)}`);
+  }
+}
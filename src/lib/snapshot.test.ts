@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { ContentPage } from '../content/pages';
+import { countChangedFields } from './snapshot';
+
+const page: ContentPage = {
+  slug: 'test',
+  title: 'Test',
+  description: '',
+  fields: [
+    { id: 'title', as: 'h1', defaultText: 'Hello world' },
+    { id: 'body', as: 'div', defaultText: 'First line\nSecond line' },
+  ],
+};
+
+describe('countChangedFields', () => {
+  it('ignores fields saved unchanged from their defaults', () => {
+    const edits = [
+      { id: 'title', innerText: 'Hello  world' },
+      { id: 'body', innerText: 'First line\nSecond line, edited' },
+    ];
+    expect(countChangedFields(page, edits, [])).toBe(1);
+  });
+
+  it('compares with the published text where there is one', () => {
+    const published = [{ id: 'title', innerText: 'Hello, published' }];
+    const edits = [
+      { id: 'title', innerText: 'Hello, published' },
+      { id: 'body', innerText: 'First line\nSecond line' },
+    ];
+    expect(countChangedFields(page, edits, published)).toBe(0);
+    const reverted = [{ id: 'title', innerText: 'Hello world' }];
+    expect(countChangedFields(page, reverted, published)).toBe(1);
+  });
+});
@@ -0,0 +1,273 @@
+import type { FieldEdit } from '../components/malleable';
+import { ContentPage, getPage, pageFieldElements } from '../content/pages';
+import { normalizeText } from './diff';
+import { isValidId } from './snapshot-store';
+import { validateEdits } from './validate-edits';
+
+export const MAX_LABEL_LENGTH = 200;
+
+// Bumped whenever a page's field ids change in a way that alters how stored
+// edits apply. `readSnapshot` upgrades snapshots saved under older versions.
+export const FIELDS_VERSION = 2;
+
+// Under fields version 1 the home page gave several fields the same id, and an
+// edit to that id changed all of them. Each field now has an id of its own, so
+// such an edit is copied onto every field that used to share it.
+const V1_SHARED_IDS: Record<string, Record<string, string[]>> = {
+  index: {
+    'title-3': [
+      'title-4',
+      'title-5',
+      'title-6',
+      'title-7',
+      'title-8',
+      'title-9',
+      'title-10',
+    ],
+    'explanation-6-inspect': [
+      'explanation-7-inspect',
+      'explanation-8-inspect',
+      'explanation-9-inspect',
+      'explanation-10-inspect',
+    ],
+  },
+};
+
+// The shape persisted in the snapshot store. Snapshots saved before revision
+// history existed are a bare `FieldEdit[]`, which `readSnapshot` upgrades.
+export type Snapshot = {
+  // Slug of the content page the edits apply to; `index` for legacy
+  // snapshots.
+  page: string;
+  edits: FieldEdit[];
+  // The snapshot this one was edited from, if it was created while viewing a
+  // preview.
+  parentId: string | null;
+  label: string | null;
+  // ISO 8601 timestamp; `null` for legacy snapshots.
+  createdAt: string | null;
+  // The signed-in editor who saved it; `null` for legacy snapshots.
+  author: SnapshotAuthor | null;
+  // The `FIELDS_VERSION` the edits were saved under; 1 for snapshots saved
+  // before it was recorded.
+  fieldsVersion: number;
+};
+
+export type SnapshotAuthor = { id: string; name: string };
+
+type SnapshotValidation =
+  | { ok: true; snapshot: Snapshot }
+  | { ok: false; errors: string[] };
+
+function validateLabel(label: unknown, errors: string[]): string | null {
+  if (label == null || label === '') return null;
+  if (typeof label !== 'string') {
+    errors.push('label: expected a string.');
+    return null;
+  }
+  const trimmed = label.replace(/\s+/g, ' ').trim();
+  if (trimmed.length > MAX_LABEL_LENGTH) {
+    errors.push(`label: exceeds ${MAX_LABEL_LENGTH} characters.`);
+  }
+  return trimmed || null;
+}
+
+function validateParentId(parentId: unknown, errors: string[]) {
+  if (parentId == null) return null;
+  if (!isValidId(parentId)) {
+    errors.push('parentId: expected a snapshot id.');
+    return null;
+  }
+  return parentId;
+}
+
+function validateAuthor(author: unknown, errors: string[]) {
+  if (author == null) return null;
+  const { id, name } = author as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof name !== 'string') {
+    errors.push('author: expected an id and name.');
+    return null;
+  }
+  return { id, name };
+}
+
+// Edits are checked against the fields of the page they belong to.
+function validatePageEdits(page: unknown, edits: unknown, errors: string[]) {
+  const contentPage = typeof page === 'string' ? getPage(page) : undefined;
+  if (!contentPage) {
+    errors.push(`page: unknown page "${String(page)}".`);
+    return { page: null, edits: [] };
+  }
+  const result = validateEdits(edits, pageFieldElements(contentPage));
+  if (result.ok === false) {
+    errors.push(...result.errors);
+    return { page: contentPage.slug, edits: [] };
+  }
+  return { page: contentPage.slug, edits: result.edits };
+}
+
+// Rewrites edits saved under an older fields version for the current fields.
+// A field that also has an edit of its own keeps it.
+function upgradeEdits(page: string, edits: FieldEdit[], fieldsVersion: number) {
+  const sharedIds = fieldsVersion < 2 ? V1_SHARED_IDS[page] : undefined;
+  if (!sharedIds) return edits;
+  const edited = new Set(edits.map((edit) => edit.id));
+  return edits.flatMap((edit) => [
+    edit,
+    ...(sharedIds[edit.id] ?? [])
+      .filter((id) => !edited.has(id))
+      .map((id) => ({ ...edit, id })),
+  ]);
+}
+
+function validateFieldsVersion(fieldsVersion: unknown, errors: string[]) {
+  if (fieldsVersion == null) return 1;
+  if (
+    !Number.isInteger(fieldsVersion) ||
+    fieldsVersion < 1 ||
+    fieldsVersion > FIELDS_VERSION
+  ) {
+    errors.push('fieldsVersion: unsupported fields version.');
+    return FIELDS_VERSION;
+  }
+  return fieldsVersion as number;
+}
+
+// Validates a `/api/save` request body. For backwards compatibility with
+// older clients, a bare array of edits (for the home page) is accepted too.
+export function validateSnapshotRequest(
+  body: unknown,
+  author: SnapshotAuthor,
+  now: Date = new Date()
+): SnapshotValidation {
+  const {
+    page = 'index',
+    edits,
+    parentId,
+    label,
+  } = (Array.isArray(body) ? { edits: body } : body ?? {}) as Record<
+    string,
+    unknown
+  >;
+
+  const errors: string[] = [];
+  const snapshot: Snapshot = {
+    ...validatePageEdits(page, edits, errors),
+    parentId: validateParentId(parentId, errors),
+    label: validateLabel(label, errors),
+    createdAt: now.toISOString(),
+    author: { id: author.id, name: author.name },
+    fieldsVersion: FIELDS_VERSION,
+  };
+
+  return errors.length ? { ok: false, errors } : { ok: true, snapshot };
+}
+
+// Validates a snapshot read back from storage, upgrading its edits to the
+// current `FIELDS_VERSION`.
+export function readSnapshot(stored: unknown): SnapshotValidation {
+  if (Array.isArray(stored)) {
+    const result = validateEdits(stored, pageFieldElements(getPage('index')));
+    if (result.ok === false) return result;
+    return {
+      ok: true,
+      snapshot: {
+        page: 'index',
+        edits: upgradeEdits('index', result.edits, 1),
+        parentId: null,
+        label: null,
+        createdAt: null,
+        author: null,
+        fieldsVersion: FIELDS_VERSION,
+      },
+    };
+  }
+
+  if (stored == null || typeof stored !== 'object') {
+    return { ok: false, errors: ['Expected a snapshot object.'] };
+  }
+
+  const {
+    page = 'index',
+    edits,
+    parentId,
+    label,
+    createdAt,
+    author,
+    fieldsVersion,
+  } = stored as Record<string, unknown>;
+  const errors: string[] = [];
+  if (createdAt != null && typeof createdAt !== 'string') {
+    errors.push('createdAt: expected a timestamp.');
+  }
+  const pageEdits = validatePageEdits(page, edits, errors);
+  const snapshot: Snapshot = {
+    page: pageEdits.page,
+    edits: upgradeEdits(
+      pageEdits.page,
+      pageEdits.edits,
+      validateFieldsVersion(fieldsVersion, errors)
+    ),
+    parentId: validateParentId(parentId, errors),
+    label: validateLabel(label, errors),
+    createdAt: typeof createdAt === 'string' ? createdAt : null,
+    author: validateAuthor(author, errors),
+    fieldsVersion: FIELDS_VERSION,
+  };
+
+  return errors.length ? { ok: false, errors } : { ok: true, snapshot };
+}
+
+// How many of `edits` change what their field shows: its `published` text,
+// or its default text when the page's published version leaves it alone.
+// Saves include every field on the page, edited or not. Like "show changes",
+// this compares text only, so formatting-only edits don't count.
+export function countChangedFields(
+  page: ContentPage,
+  edits: FieldEdit[],
+  published: FieldEdit[]
+) {
+  const original = new Map(
+    page.fields.map(({ id, defaultText }) => [id, defaultText])
+  );
+  published.forEach(({ id, innerText }) => original.set(id, innerText));
+  return edits.filter(
+    ({ id, innerText }) =>
+      innerText &&
+      normalizeText(innerText) !== normalizeText(original.get(id) ?? '')
+  ).length;
+}
+
+export type SnapshotRevision = {
+  id: string;
+  label: string | null;
+  createdAt: string | null;
+  author: SnapshotAuthor | null;
+};
+
+// Walks the `parentId` chain starting at (and including) `snapshotId`,
+// newest first. Stops at a missing or unreadable ancestor.
+export async function loadAncestry(
+  snapshotId: string,
+  getSnapshot: (id: string) => Promise<Snapshot | null>,
+  maxDepth = 50
+): Promise<SnapshotRevision[]> {
+  const revisions: SnapshotRevision[] = [];
+  const seen = new Set<string>();
+
+  let id = snapshotId;
+  while (id && !seen.has(id) && revisions.length < maxDepth) {
+    seen.add(id);
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) break;
+    revisions.push({
+      id,
+      label: snapshot.label,
+      createdAt: snapshot.createdAt,
+      author: snapshot.author,
+    });
+    id = snapshot.parentId;
+  }
+
+  return revisions;
+}
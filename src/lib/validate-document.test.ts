@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { ValidElementTypes } from '../components/malleable';
+import { RichDocument } from './rich-text';
+import { validateDocument } from './validate-document';
+
+const paragraph = (text: string): RichDocument => [
+  { type: 'paragraph', children: [{ text }] },
+];
+
+describe('validateDocument', () => {
+  const validate = (input: unknown, as: ValidElementTypes) => {
+    const errors: string[] = [];
+    return { document: validateDocument(input, 'doc', errors, as), errors };
+  };
+
+  it('accepts every format in body fields', () => {
+    const document: RichDocument = [
+      { type: 'h3', children: [{ text: 'Heading' }] },
+      {
+        type: 'paragraph',
+        children: [
+          { text: 'bold', bold: true },
+          {
+            type: 'link',
+            url: 'https://example.com',
+            children: [{ text: 'link' }],
+          },
+        ],
+      },
+      {
+        type: 'bulleted-list',
+        children: [{ type: 'list-item', children: [{ text: 'item' }] }],
+      },
+    ];
+    expect(validate(document, 'div')).toEqual({ document, errors: [] });
+  });
+
+  it('strips unknown properties', () => {
+    expect(
+      validate(
+        [{ type: 'paragraph', children: [{ text: 'a', color: 'red' }] }],
+        'div'
+      ).document
+    ).toEqual(paragraph('a'));
+  });
+
+  it('rejects unsupported blocks', () => {
+    expect(
+      validate([{ type: 'table', children: [{ text: 'a' }] }], 'div').errors
+    ).toEqual(['doc[0].type: unsupported block "table".']);
+  });
+
+  it('only accepts list items in lists', () => {
+    expect(
+      validate(
+        [
+          {
+            type: 'numbered-list',
+            children: [{ type: 'paragraph', children: [{ text: 'a' }] }],
+          },
+        ],
+        'div'
+      ).errors
+    ).toEqual(['doc[0].children[0]: expected a list item.']);
+  });
+
+  it('only accepts inline formatting in span fields', () => {
+    const heading = [{ type: 'h3', children: [{ text: 'a', bold: true }] }];
+    expect(validate(heading, 'span').errors).toEqual([
+      'doc[0].type: "h3" is not allowed in a <span> field.',
+    ]);
+    const bold = [{ type: 'paragraph', children: [{ text: 'a', bold: true }] }];
+    expect(validate(bold, 'span').errors).toEqual([]);
+  });
+
+  it('rejects blocks in headings and formatting in <pre> fields', () => {
+    expect(
+      validate(
+        [
+          {
+            type: 'bulleted-list',
+            children: [{ type: 'list-item', children: [{ text: 'a' }] }],
+          },
+        ],
+        'h1'
+      ).errors
+    ).toEqual(['doc[0].type: "bulleted-list" is not allowed in a <h1> field.']);
+    expect(
+      validate(
+        [{ type: 'paragraph', children: [{ text: 'a', bold: true }] }],
+        'pre'
+      ).errors
+    ).toEqual(['doc[0].children[0].bold: not allowed in a <pre> field.']);
+  });
+
+  it('rejects unsafe link URLs', () => {
+    const { document, errors } = validate(
+      [
+        {
+          type: 'paragraph',
+          children: [
+            {
+              type: 'link',
+              url: 'javascript:alert(1)',
+              children: [{ text: 'x' }],
+            },
+          ],
+        },
+      ],
+      'div'
+    );
+    expect(document).toBeNull();
+    expect(errors).toEqual(['doc[0].children[0].url: unsupported URL scheme.']);
+  });
+});
@@ -0,0 +1,141 @@
+import type { ValidElementTypes } from '../components/malleable';
+import {
+  formatsFor,
+  RichBlock,
+  RichDocument,
+  RichInline,
+  RichLeaf,
+  RichListItem,
+  RichListType,
+  RichTextBlockType,
+  RICH_LIST_TYPES,
+  RICH_MARKS,
+  RICH_TEXT_BLOCK_TYPES,
+  isSafeUrl,
+} from './rich-text';
+
+const MAX_NODES = 5000;
+const MAX_URL_LENGTH = 2048;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+// Validates an untrusted Slate document for a field rendered as `as`, and
+// returns a sanitized copy that contains only the node types, marks and
+// properties we know how to render there. Returns `null` (after pushing to
+// `errors`) when the document is invalid.
+export function validateDocument(
+  input: unknown,
+  at: string,
+  errors: string[],
+  as: ValidElementTypes
+): RichDocument | null {
+  const formats = formatsFor(as);
+  let nodes = 0;
+  const fail = (path: string, message: string) => {
+    errors.push(`${path}: ${message}`);
+    return null;
+  };
+
+  const leaf = (node: unknown, path: string): RichLeaf | null => {
+    if (!isObject(node) || typeof node.text !== 'string') {
+      return fail(path, 'expected a text node.');
+    }
+    const sanitized: RichLeaf = {
+      text: node.text.replace(/\r\n?/g, '\n').normalize('NFC'),
+    };
+    for (const mark of RICH_MARKS) {
+      if (node[mark] === true) {
+        if (!formats.marks) {
+          return fail(`${path}.${mark}`, `not allowed in a <${as}> field.`);
+        }
+        sanitized[mark] = true;
+      }
+    }
+    return sanitized;
+  };
+
+  const inline = (node: unknown, path: string): RichInline | null => {
+    if (++nodes > MAX_NODES) return fail(path, 'document is too large.');
+    if (!isObject(node) || !('type' in node)) return leaf(node, path);
+    if (node.type !== 'link') return fail(path, 'expected an inline node.');
+    if (!formats.links) {
+      return fail(`${path}.type`, `links are not allowed in a <${as}> field.`);
+    }
+
+    const { url, children } = node;
+    if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+      return fail(`${path}.url`, 'expected a URL.');
+    }
+    if (!isSafeUrl(url)) return fail(`${path}.url`, 'unsupported URL scheme.');
+    if (!Array.isArray(children) || !children.length) {
+      return fail(`${path}.children`, 'expected text nodes.');
+    }
+    const leaves = children.map((child, i) =>
+      leaf(child, `${path}.children[${i}]`)
+    );
+    return leaves.includes(null)
+      ? null
+      : { type: 'link', url, children: leaves };
+  };
+
+  const inlines = (node: Record<string, unknown>, path: string) => {
+    if (!Array.isArray(node.children) || !node.children.length) {
+      return fail(`${path}.children`, 'expected inline nodes.');
+    }
+    const children = node.children.map((child, i) =>
+      inline(child, `${path}.children[${i}]`)
+    );
+    return children.includes(null) ? null : children;
+  };
+
+  const block = (node: unknown, path: string): RichBlock | null => {
+    if (++nodes > MAX_NODES) return fail(path, 'document is too large.');
+    if (!isObject(node)) return fail(path, 'expected a block node.');
+
+    const type = node.type as RichBlock['type'];
+    if (
+      type !== 'paragraph' &&
+      !formats.blocks &&
+      (RICH_TEXT_BLOCK_TYPES.includes(type as RichTextBlockType) ||
+        RICH_LIST_TYPES.includes(type as RichListType))
+    ) {
+      return fail(
+        `${path}.type`,
+        `"${type}" is not allowed in a <${as}> field.`
+      );
+    }
+
+    if (RICH_TEXT_BLOCK_TYPES.includes(type as RichTextBlockType)) {
+      const children = inlines(node, path);
+      return children && { type: type as RichTextBlockType, children };
+    }
+
+    if (RICH_LIST_TYPES.includes(type as RichListType)) {
+      if (!Array.isArray(node.children) || !node.children.length) {
+        return fail(`${path}.children`, 'expected list items.');
+      }
+      const items = node.children.map((item, i): RichListItem | null => {
+        const itemPath = `${path}.children[${i}]`;
+        if (++nodes > MAX_NODES)
+          return fail(itemPath, 'document is too large.');
+        if (!isObject(item) || item.type !== 'list-item') {
+          return fail(itemPath, 'expected a list item.');
+        }
+        const children = inlines(item, itemPath);
+        return children && { type: 'list-item', children };
+      });
+      return items.includes(null)
+        ? null
+        : { type: type as RichListType, children: items };
+    }
+
+    return fail(`${path}.type`, `unsupported block "${String(type)}".`);
+  };
+
+  if (!Array.isArray(input) || !input.length) {
+    return fail(at, 'expected an array of block nodes.');
+  }
+  const blocks = input.map((node, i) => block(node, `${at}[${i}]`));
+  return blocks.includes(null) ? null : blocks;
+}
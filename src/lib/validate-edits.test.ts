@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { ValidElementTypes } from '../components/malleable';
+import { RichDocument } from './rich-text';
+import { MAX_FIELD_LENGTH, validateEdits } from './validate-edits';
+
+const fields = new Map<string, ValidElementTypes>([
+  ['title', 'h1'],
+  ['body', 'div'],
+  ['code', 'pre'],
+]);
+
+const paragraph = (text: string): RichDocument => [
+  { type: 'paragraph', children: [{ text }] },
+];
+
+describe('validateEdits', () => {
+  it('keeps only known properties and normalizes line endings', () => {
+    expect(
+      validateEdits(
+        [{ id: 'title', innerText: 'Hello\r\nworld', extra: true }],
+        fields
+      )
+    ).toEqual({
+      ok: true,
+      edits: [{ id: 'title', innerText: 'Hello\nworld' }],
+    });
+  });
+
+  it('derives the text of rich edits from their document', () => {
+    const document = paragraph('From the document');
+    expect(
+      validateEdits([{ id: 'body', innerText: 'ignored', document }], fields)
+    ).toEqual({
+      ok: true,
+      edits: [{ id: 'body', innerText: 'From the document', document }],
+    });
+  });
+
+  it('rejects unknown, duplicate and malformed edits', () => {
+    const result = validateEdits(
+      [
+        { id: 'nope', innerText: '' },
+        { id: 'title', innerText: 'a' },
+        { id: 'title', innerText: 'b' },
+        { id: 'body', innerText: 42 },
+        { id: 'code', innerText: 'bell\u0007' },
+        'not an object',
+      ],
+      fields
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        '[0].id: unknown field "nope".',
+        '[2].id: duplicate field "title".',
+        '[3].innerText: expected a string.',
+        '[4].innerText: contains control characters for field "code".',
+        '[5]: expected an object.',
+      ],
+    });
+  });
+
+  it('rejects fields that are too long', () => {
+    const result = validateEdits(
+      [{ id: 'body', innerText: 'x'.repeat(MAX_FIELD_LENGTH + 1) }],
+      fields
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects anything but an array', () => {
+    expect(validateEdits({ id: 'title' }, fields)).toEqual({
+      ok: false,
+      errors: ['Expected an array of field edits.'],
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import type { FieldEdit, ValidElementTypes } from '../components/malleable';
+import { documentToText, RichDocument } from './rich-text';
+import { validateDocument } from './validate-document';
+
+// The longest field on the page is a few kilobytes of text; this leaves
+// plenty of headroom while keeping a single snapshot reasonably small.
+export const MAX_FIELD_LENGTH = 16 * 1024;
+
+// C0 and C1 control characters, except for tab, line feed and carriage
+// return which legitimately appear in multi-line fields.
+const CONTROL_CHARACTERS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/;
+
+export type EditsValidation =
+  | { ok: true; edits: FieldEdit[] }
+  | { ok: false; errors: string[] };
+
+// Validates untrusted field edits (from a request body or from storage)
+// against the page's fields, by id and the element they render as (see
+// `pageFieldElements`), and returns a sanitized copy containing only known
+// properties.
+export function validateEdits(
+  input: unknown,
+  fields: ReadonlyMap<string, ValidElementTypes>
+): EditsValidation {
+  if (!Array.isArray(input)) {
+    return { ok: false, errors: ['Expected an array of field edits.'] };
+  }
+
+  const errors: string[] = [];
+  const edits: FieldEdit[] = [];
+  const seen = new Set<string>();
+
+  input.forEach((entry, index) => {
+    const at = `[${index}]`;
+    if (entry == null || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${at}: expected an object.`);
+      return;
+    }
+
+    const { id, document } = entry as Record<string, unknown>;
+    let { innerText } = entry as Record<string, unknown>;
+    if (typeof id !== 'string') {
+      errors.push(`${at}.id: expected a string.`);
+      return;
+    }
+    if (!fields.has(id)) {
+      errors.push(`${at}.id: unknown field "${id}".`);
+      return;
+    }
+    if (seen.has(id)) {
+      errors.push(`${at}.id: duplicate field "${id}".`);
+      return;
+    }
+    seen.add(id);
+
+    // Rich-text edits carry a Slate document; the plain text is always
+    // derived from it so the two can never disagree. Legacy edits only have
+    // `innerText`.
+    let sanitizedDocument: RichDocument | undefined;
+    if (document !== undefined) {
+      sanitizedDocument = validateDocument(
+        document,
+        `${at}.document`,
+        errors,
+        fields.get(id)
+      );
+      if (!sanitizedDocument) return;
+      innerText = documentToText(sanitizedDocument);
+    }
+
+    if (typeof innerText !== 'string') {
+      errors.push(`${at}.innerText: expected a string.`);
+      return;
+    }
+    if (innerText.length > MAX_FIELD_LENGTH) {
+      errors.push(
+        `${at}.innerText: exceeds ${MAX_FIELD_LENGTH} characters for field "${id}".`
+      );
+      return;
+    }
+    if (CONTROL_CHARACTERS.test(innerText)) {
+      errors.push(
+        `${at}.innerText: contains control characters for field "${id}".`
+      );
+      return;
+    }
+
+    const edit: FieldEdit = {
+      id,
+      innerText: innerText.replace(/\r\n?/g, '\n').normalize('NFC'),
+    };
+    if (sanitizedDocument) edit.document = sanitizedDocument;
+    edits.push(edit);
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, edits };
+}
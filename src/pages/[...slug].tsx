@@ -0,0 +1,48 @@
+import { GetStaticPaths, GetStaticProps } from 'next';
+import EditablePage from '../components/page';
+import { ContentFields } from '../components/page/fields';
+import { getPage, pages } from '../content/pages';
+import { getPreviewProps, PreviewData, PreviewProps } from '../lib/preview';
+
+// Every content page but the home page, which `pages/index.tsx` serves at `/`.
+export const getStaticPaths: GetStaticPaths = async () => ({
+  paths: pages
+    .filter((page) => page.slug !== 'index')
+    .map((page) => ({ params: { slug: page.slug.split('/') } })),
+  fallback: false,
+});
+
+export const getStaticProps: GetStaticProps = async ({
+  params,
+  previewData,
+}) => {
+  const slug = ([] as string[]).concat(params.slug).join('/');
+  const page = getPage(slug);
+  if (!page) return { notFound: true };
+
+  return {
+    props: {
+      slug,
+      ...(await getPreviewProps(page, previewData as PreviewData)),
+    },
+  };
+};
+
+export default function DynamicPage({
+  slug,
+  ...props
+}: PreviewProps & { slug: string }) {
+  const page = getPage(slug);
+  return (
+    <EditablePage page={page} {...props}>
+      {({ isEdit, edits, published }) => (
+        <ContentFields
+          fields={page.fields}
+          isEdit={isEdit}
+          edits={edits}
+          published={published}
+        />
+      )}
+    </EditablePage>
+  );
+}
@@ -0,0 +1,167 @@
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { useCallback, useState } from 'react';
+import { pagePath, pages } from '../../content/pages';
+import { getSessionEditor } from '../../lib/auth';
+import { getPublishedPage } from '../../lib/publish';
+import { SnapshotAuthor } from '../../lib/snapshot';
+import layoutStyles from '../../styles/layout.module.css';
+
+type VersionSummary = {
+  version: number;
+  snapshotId: string;
+  publishedAt: string;
+  publishedBy: SnapshotAuthor;
+};
+
+type PageSummary = {
+  slug: string;
+  title: string;
+  currentVersion: number | null;
+  versions: VersionSummary[];
+};
+
+export const getServerSideProps: GetServerSideProps = async ({ req }) => {
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    return { redirect: { destination: '/login', permanent: false } };
+  }
+  if (editor.role !== 'admin') {
+    return { props: { isAdmin: false } };
+  }
+
+  const summaries: PageSummary[] = await Promise.all(
+    pages.map(async ({ slug, title }) => {
+      const { currentVersion, versions } = await getPublishedPage(slug);
+      return {
+        slug,
+        title,
+        currentVersion,
+        // The edits themselves aren't needed to roll back.
+        versions: versions.map(
+          ({ version, snapshotId, publishedAt, publishedBy }) => ({
+            version,
+            snapshotId,
+            publishedAt,
+            publishedBy,
+          })
+        ),
+      };
+    })
+  );
+  return { props: { isAdmin: true, pages: summaries } };
+};
+
+function PublishedPage({ page }: { page: PageSummary }) {
+  const [currentVersion, setCurrentVersion] = useState(page.currentVersion);
+  const [isRollingBack, setRollingBack] = useState(false);
+  const [error, setError] = useState<string>(null);
+
+  const rollBack = useCallback(
+    (version: number | null) => {
+      setRollingBack(true);
+      setError(null);
+      self
+        .fetch('/api/rollback', {
+          method: 'POST',
+          body: JSON.stringify({ page: page.slug, version }),
+          headers: { 'content-type': 'application/json' },
+        })
+        .then(async (res) => {
+          const { message } = await res.json();
+          if (!res.ok) throw new Error(message);
+          setCurrentVersion(version);
+        })
+        .catch((err) => setError(err.message))
+        .finally(() => setRollingBack(false));
+    },
+    [page.slug]
+  );
+
+  return (
+    <>
+      <hr />
+      <h2>
+        <a href={pagePath(page.slug)}>{page.title}</a>
+      </h2>
+      <div className="explanation">
+        {error && <p role="alert">{error}</p>}
+        <ol className="history">
+          {page.versions.map(
+            ({ version, snapshotId, publishedAt, publishedBy }) => (
+              <li key={version}>
+                Version {version} from <code>{snapshotId}</code>
+                {version === currentVersion ? (
+                  <em> (live)</em>
+                ) : (
+                  <>
+                    {' '}
+                    <button
+                      type="button"
+                      onClick={() => rollBack(version)}
+                      disabled={isRollingBack}
+                    >
+                      Roll back
+                    </button>
+                  </>
+                )}
+                <br />
+                <small>
+                  {new Date(publishedAt).toUTCString()} by {publishedBy.name}
+                </small>
+              </li>
+            )
+          )}
+          <li>
+            Default content
+            {currentVersion === null ? (
+              <em> (live)</em>
+            ) : (
+              <>
+                {' '}
+                <button
+                  type="button"
+                  onClick={() => rollBack(null)}
+                  disabled={isRollingBack}
+                >
+                  Roll back
+                </button>
+              </>
+            )}
+          </li>
+        </ol>
+      </div>
+    </>
+  );
+}
+
+// Shows what each page has published, and rolls back to earlier versions.
+export default function Publishing({
+  isAdmin,
+  pages,
+}: {
+  isAdmin: boolean;
+  pages?: PageSummary[];
+}) {
+  return (
+    <>
+      <Head>
+        <title>Next.js | Preview Mode | Publishing</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className={layoutStyles.layout}>
+        <h1>Publishing</h1>
+        {!isAdmin ? (
+          <h2>Only admins may manage published content.</h2>
+        ) : (
+          <>
+            <h2>The live version of each page, newest first.</h2>
+            {pages.map((page) => (
+              <PublishedPage key={page.slug} page={page} />
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+import copy from 'copy-to-clipboard';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { FormEvent, useCallback, useState } from 'react';
+import { getSessionEditor } from '../../lib/auth';
+import {
+  listSnapshotSummaries,
+  SnapshotSummary,
+} from '../../lib/snapshot-admin';
+import layoutStyles from '../../styles/layout.module.css';
+
+type Listing = { snapshots: SnapshotSummary[]; cursor: string | null };
+
+export const getServerSideProps: GetServerSideProps = async ({
+  req,
+  query,
+}) => {
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    return { redirect: { destination: '/login', permanent: false } };
+  }
+  if (editor.role !== 'admin') {
+    return { props: { isAdmin: false } };
+  }
+
+  const q = typeof query.q === 'string' ? query.q : '';
+  const listing = await listSnapshotSummaries({ query: q });
+  return { props: { isAdmin: true, query: q, listing } };
+};
+
+function formatSize(bytes: number) {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function SnapshotRow({
+  snapshot,
+  onDelete,
+}: {
+  snapshot: SnapshotSummary;
+  onDelete: (id: string) => Promise<void>;
+}) {
+  const { id } = snapshot;
+  const shareUrl = `/s/${encodeURIComponent(id)}`;
+
+  const [didCopy, setCopied] = useState(false);
+  const copyShareUrl = useCallback(() => {
+    copy(`${window.origin}${shareUrl}`);
+    setCopied(true);
+  }, [shareUrl]);
+
+  const [isDeleting, setDeleting] = useState(false);
+  const deleteSnapshot = useCallback(() => {
+    if (!confirm(`Delete snapshot ${id}? Its share link will stop working.`)) {
+      return;
+    }
+    setDeleting(true);
+    onDelete(id).finally(() => setDeleting(false));
+  }, [id, onDelete]);
+
+  return (
+    <tr>
+      <td>
+        {snapshot.label || 'Untitled revision'}
+        <br />
+        <code>{id}</code>
+        {snapshot.page && <small> · {snapshot.page}</small>}
+      </td>
+      <td>
+        {snapshot.createdAt
+          ? new Date(snapshot.createdAt).toUTCString()
+          : 'Unknown'}
+        {snapshot.author && (
+          <>
+            <br />
+            <small>by {snapshot.author.name}</small>
+          </>
+        )}
+      </td>
+      <td>{formatSize(snapshot.size)}</td>
+      <td>{snapshot.fieldCount ?? <em>Unreadable</em>}</td>
+      <td>
+        {snapshot.views}
+        {snapshot.maxViews != null && ` / ${snapshot.maxViews}`}
+        {snapshot.access !== 'ok' && (
+          <>
+            <br />
+            <small>{snapshot.access}</small>
+          </>
+        )}
+      </td>
+      <td>
+        <a href={shareUrl} target="_blank" rel="noopener">
+          Open
+        </a>{' '}
+        <a href={`/history/${encodeURIComponent(id)}`}>History</a>{' '}
+        <button type="button" onClick={copyShareUrl}>
+          {didCopy ? 'Copied' : 'Copy link'}
+        </button>{' '}
+        <button type="button" onClick={deleteSnapshot} disabled={isDeleting}>
+          Delete
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function fetchListing(query: string, cursor: string | null): Promise<Listing> {
+  const params = new URLSearchParams({ q: query });
+  if (cursor) params.set('cursor', cursor);
+  return self.fetch(`/api/admin/snapshots?${params}`).then((res) => {
+    if (!res.ok) throw new Error(`Failed to load snapshots (${res.status}).`);
+    return res.json();
+  });
+}
+
+// Lists every stored snapshot, for admins to search, open and delete.
+export default function Snapshots({
+  isAdmin,
+  query: initialQuery,
+  listing,
+}: {
+  isAdmin: boolean;
+  query?: string;
+  listing?: Listing;
+}) {
+  const [query, setQuery] = useState(initialQuery ?? '');
+  const [snapshots, setSnapshots] = useState(listing?.snapshots ?? []);
+  const [cursor, setCursor] = useState(listing?.cursor ?? null);
+  const [isLoading, setLoading] = useState(false);
+  const [error, setError] = useState<string>(null);
+
+  const load = useCallback(
+    (from: string | null, append: boolean) => {
+      setLoading(true);
+      setError(null);
+      fetchListing(query, from)
+        .then((next) => {
+          setSnapshots((current) =>
+            append ? [...current, ...next.snapshots] : next.snapshots
+          );
+          setCursor(next.cursor);
+        })
+        .catch((err) => setError(err.message))
+        .finally(() => setLoading(false));
+    },
+    [query]
+  );
+
+  const search = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      // Keep the search in the URL, so reloading the page keeps it.
+      history.replaceState(
+        null,
+        '',
+        query ? `?${new URLSearchParams({ q: query })}` : location.pathname
+      );
+      load(null, false);
+    },
+    [query, load]
+  );
+
+  const onDelete = useCallback(async (id: string) => {
+    const res = await self.fetch(
+      `/api/admin/snapshots/${encodeURIComponent(id)}`,
+      { method: 'DELETE' }
+    );
+    if (!res.ok) {
+      setError(`Failed to delete ${id} (${res.status}).`);
+      return;
+    }
+    setSnapshots((current) => current.filter((s) => s.id !== id));
+  }, []);
+
+  return (
+    <>
+      <Head>
+        <title>Next.js | Preview Mode | Snapshots</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className={layoutStyles.layout}>
+        <h1>Snapshots</h1>
+        {!isAdmin ? (
+          <h2>Only admins may manage snapshots.</h2>
+        ) : (
+          <>
+            <h2>Every saved draft, in storage order.</h2>
+            <form className="explanation unlock" onSubmit={search}>
+              <input
+                type="search"
+                aria-label="Search by id, page, label or author"
+                placeholder="Search by id, page, label or author"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+              <button type="submit" disabled={isLoading}>
+                Search
+              </button>
+              {error && <p role="alert">{error}</p>}
+            </form>
+            <div className="explanation">
+              <table className="snapshots">
+                <thead>
+                  <tr>
+                    <th>Snapshot</th>
+                    <th>Created</th>
+                    <th>Size</th>
+                    <th>Changed fields</th>
+                    <th>Views</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshots.map((snapshot) => (
+                    <SnapshotRow
+                      key={snapshot.id}
+                      snapshot={snapshot}
+                      onDelete={onDelete}
+                    />
+                  ))}
+                </tbody>
+              </table>
+              {!snapshots.length && !cursor && <p>No snapshots found.</p>}
+              {cursor && (
+                <p style={{ textAlign: 'center' }}>
+                  <button
+                    type="button"
+                    onClick={() => load(cursor, true)}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? 'Loading…' : 'Load more'}
+                  </button>
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
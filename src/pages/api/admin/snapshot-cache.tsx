@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import { getSnapshotCacheStats } from '../../../lib/snapshot-store';
+
+// Hit and miss counts of this server instance's snapshot cache, since it
+// started. `null` when the cache is disabled.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  if (!(await requireAdmin(req, res))) return;
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.status(200).json({ stats: getSnapshotCacheStats() });
+  res.end();
+};
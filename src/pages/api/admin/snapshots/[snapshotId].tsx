@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/auth';
+import { sendError } from '../../../../lib/errors';
+import { logError } from '../../../../lib/log';
+import { getRequestId } from '../../../../lib/request-id';
+import { deleteSnapshot } from '../../../../lib/snapshot-admin';
+import { isValidId } from '../../../../lib/snapshot-store';
+
+// Deletes a snapshot from the admin dashboard.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', 'DELETE');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  if (!(await requireAdmin(req, res))) return;
+
+  const { snapshotId } = req.query;
+  if (!isValidId(snapshotId)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Invalid snapshot id.',
+    });
+  }
+
+  try {
+    await deleteSnapshot(snapshotId);
+  } catch (err) {
+    logError('admin.snapshot_delete_failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The snapshot could not be deleted.',
+    });
+  }
+  res.status(204).end();
+};
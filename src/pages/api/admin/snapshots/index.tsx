@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../../lib/auth';
+import { sendError } from '../../../../lib/errors';
+import { logError } from '../../../../lib/log';
+import { getRequestId } from '../../../../lib/request-id';
+import {
+  DEFAULT_PAGE_SIZE,
+  listSnapshotSummaries,
+  MAX_PAGE_SIZE,
+} from '../../../../lib/snapshot-admin';
+
+// Lists snapshots for the admin dashboard (admin/snapshots.tsx). Pass the
+// returned `cursor` back to fetch the next page.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  if (!(await requireAdmin(req, res))) return;
+
+  const { cursor, limit, q } = req.query;
+  const pageSize = Math.min(
+    Math.max(Number(limit) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  try {
+    res.status(200).json(
+      await listSnapshotSummaries({
+        cursor: typeof cursor === 'string' && cursor ? cursor : undefined,
+        limit: pageSize,
+        query: typeof q === 'string' ? q : '',
+      })
+    );
+  } catch (err) {
+    logError('admin.snapshot_list_failed', {
+      requestId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The snapshots could not be listed.',
+    });
+  }
+  res.end();
+};
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUserStore, setSessionCookie } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+
+// Signs an editor in. Accepts the login page's form post as well as JSON.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const { username, password } = req.body ?? {};
+  const isForm = !req.headers['content-type']?.includes('application/json');
+  const editor =
+    typeof username === 'string' && typeof password === 'string'
+      ? await getUserStore().authenticate(username, password)
+      : null;
+
+  if (!editor) {
+    if (!isForm) {
+      return sendError(
+        res,
+        { code: 'forbidden', message: 'Incorrect username or password.' },
+        401
+      );
+    }
+    // Use 303 so the browser follows up with a `GET`.
+    res.writeHead(303, { Location: '/login?failed=1' });
+    return res.end();
+  }
+
+  setSessionCookie(res, editor.id);
+  if (isForm) {
+    res.writeHead(303, { Location: '/' });
+  } else {
+    res.status(200).json({ editor });
+  }
+  res.end();
+};
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearSessionCookie, readSessionStart } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import { logInfo } from '../../../lib/log';
+import { editorSignOutDuration } from '../../../lib/metrics';
+import { getRequestId } from '../../../lib/request-id';
+
+// Signs the editor out. Only `POST` is accepted, so another site can't sign
+// editors out by linking or embedding this URL.
+export default (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const startedAt = readSessionStart(req);
+  if (startedAt !== null) {
+    const seconds = (Date.now() - startedAt) / 1000;
+    editorSignOutDuration.observe(seconds);
+    logInfo('editor.signed_out', {
+      requestId: getRequestId(req, res),
+      sessionSeconds: Math.round(seconds),
+    });
+  }
+  clearSessionCookie(res);
+  // Use 303 so the browser follows up with a `GET`.
+  res.writeHead(303, { Location: '/' });
+  res.end();
+};
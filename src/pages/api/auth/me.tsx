@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionEditor } from '../../../lib/auth';
+
+// The index page is static, so it asks here whether to show editing controls.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const editor = await getSessionEditor(req);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.status(200).json({ editor });
+  res.end();
+};
@@ -0,0 +1,168 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPage, pageFieldIds } from '../../../content/pages';
+import { getSessionEditor } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import {
+  addReply,
+  addThread,
+  canResolveThread,
+  CommentThread,
+  CommentViewer,
+  ensureReviewerKey,
+  getReviewerKey,
+  getThreads,
+  setThreadResolved,
+  validateComment,
+  viewThreads,
+} from '../../../lib/comments';
+import { logError } from '../../../lib/log';
+import type { PreviewData } from '../../../lib/preview';
+import {
+  consume,
+  getClientIp,
+  RateLimitRule,
+  setRateLimitHeaders,
+} from '../../../lib/rate-limit';
+import { getRequestId } from '../../../lib/request-id';
+import { readSnapshot } from '../../../lib/snapshot';
+import { getSnapshotStore, isValidId } from '../../../lib/snapshot-store';
+
+const COMMENT_LIMIT: RateLimitRule = {
+  name: 'comments:ip',
+  limit: 30,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Review comments on a snapshot's fields:
+//
+// - `GET` lists the threads.
+// - `POST` starts a thread on `fieldId`, or replies to `threadId`.
+// - `PATCH` resolves (or reopens) `threadId`.
+//
+// Anyone previewing the snapshot through its share link may comment, as may
+// signed-in editors. Only editors and whoever started a thread may resolve it.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  const { snapshotId } = req.query;
+  if (!isValidId(snapshotId)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Invalid snapshot id.',
+    });
+  }
+  if (!['GET', 'POST', 'PATCH'].includes(req.method)) {
+    res.setHeader('Allow', 'GET, POST, PATCH');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  // The share link already checked expiry, view limits and the passphrase
+  // before putting the snapshot id in the preview cookie.
+  const editor = await getSessionEditor(req);
+  const previewData = req.previewData as PreviewData | undefined;
+  const isPreviewing =
+    previewData?.snapshotId === snapshotId && !previewData.error;
+  if (!editor && !isPreviewing) {
+    return sendError(res, {
+      code: 'forbidden',
+      message: 'Open the share link to comment.',
+    });
+  }
+
+  if (req.method !== 'GET') {
+    const limit = await consume(COMMENT_LIMIT, getClientIp(req));
+    const { allowed, retryAfter } = setRateLimitHeaders(res, [limit]);
+    if (!allowed) {
+      return sendError(res, {
+        code: 'rate-limited',
+        message: `Too many comments. Please try again in ${retryAfter} seconds.`,
+        retryAfter,
+      });
+    }
+  }
+
+  const viewer: CommentViewer = { editor, reviewerKey: getReviewerKey(req) };
+  let threads: CommentThread[] | null;
+  try {
+    const result = readSnapshot(await getSnapshotStore().get(snapshotId));
+    if (result.ok === false) {
+      return sendError(res, {
+        code: 'not-found',
+        message: 'The snapshot does not exist.',
+      });
+    }
+
+    const { fieldId, threadId, resolved } = req.body ?? {};
+    if (req.method === 'GET') {
+      threads = await getThreads(snapshotId);
+    } else if (req.method === 'PATCH') {
+      if (typeof threadId !== 'string' || typeof resolved !== 'boolean') {
+        return sendError(res, {
+          code: 'invalid-payload',
+          message: 'Expected a thread id and state.',
+        });
+      }
+      const thread = (await getThreads(snapshotId)).find(
+        ({ id }) => id === threadId
+      );
+      if (thread && !canResolveThread(thread, viewer)) {
+        return sendError(res, {
+          code: 'forbidden',
+          message: 'Only editors and whoever started a thread can resolve it.',
+        });
+      }
+      threads = await setThreadResolved(snapshotId, threadId, resolved);
+    } else {
+      const comment = validateComment(req.body, editor);
+      if (comment.ok === false) {
+        return sendError(res, {
+          code: 'invalid-payload',
+          message: 'The submitted comment is invalid.',
+          errors: comment.errors,
+        });
+      }
+      if (typeof threadId === 'string') {
+        threads = await addReply(snapshotId, threadId, comment.input);
+      } else if (
+        typeof fieldId === 'string' &&
+        pageFieldIds(getPage(result.snapshot.page)).has(fieldId)
+      ) {
+        if (!editor) viewer.reviewerKey = ensureReviewerKey(req, res);
+        threads = await addThread(
+          snapshotId,
+          fieldId,
+          comment.input,
+          editor ? null : viewer.reviewerKey
+        );
+      } else {
+        return sendError(res, {
+          code: 'invalid-payload',
+          message: 'The submitted comment is invalid.',
+          errors: [`fieldId: unknown field "${String(fieldId)}".`],
+        });
+      }
+    }
+  } catch (err) {
+    logError('comments.failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The comments could not be loaded or saved.',
+    });
+  }
+
+  if (!threads) {
+    return sendError(res, {
+      code: 'conflict',
+      message:
+        'The thread does not exist, or this snapshot has too many comments.',
+    });
+  }
+  res.status(200).json({ threads: viewThreads(threads, viewer) });
+  res.end();
+};
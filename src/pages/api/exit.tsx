@@ -1,11 +1,26 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { logInfo } from '../../lib/log';
+import { previewExits } from '../../lib/metrics';
+import type { PreviewData } from '../../lib/preview';
+import { getRequestId } from '../../lib/request-id';
+import { safeReturnPath } from '../../lib/return-path';
 
 export default (req: NextApiRequest, res: NextApiResponse) => {
+  const previewData = req.previewData as PreviewData | undefined;
+  if (previewData) {
+    previewExits.inc();
+    logInfo('preview.exited', {
+      // Correlates the exit with the request that entered the preview.
+      requestId: getRequestId(req, res, previewData.requestId),
+      snapshotId: previewData.snapshotId,
+    });
+  }
+
   // Exit the current user from "Preview Mode". This function accepts no args.
   res.clearPreviewData();
 
-  // Redirect the user back to the index page. Normally, you'd redirect them to
-  // a `next`-URL query parameter or from other state.
-  res.writeHead(307, { Location: '/' });
+  // Redirect the user back to the page they were on, passed as the `next`
+  // query parameter. It's validated, so this can't redirect to another site.
+  res.writeHead(307, { Location: safeReturnPath(req.query.next) ?? '/' });
   res.end();
 };
@@ -0,0 +1,93 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionEditor } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import { logError } from '../../../lib/log';
+import type { PreviewData } from '../../../lib/preview';
+import { getRequestId } from '../../../lib/request-id';
+import { readSnapshot } from '../../../lib/snapshot';
+import {
+  BundleFormat,
+  bundleToMarkdown,
+  createBundle,
+} from '../../../lib/snapshot-bundle';
+import { getSnapshotStore, isValidId } from '../../../lib/snapshot-store';
+
+const FORMATS: Record<BundleFormat, { type: string; extension: string }> = {
+  json: { type: 'application/json', extension: 'json' },
+  markdown: { type: 'text/markdown', extension: 'md' },
+};
+
+// Downloads a snapshot as a bundle (`?format=json`, the default, or
+// `?format=markdown`) that can be imported into the editor elsewhere.
+//
+// Anyone previewing the snapshot through its share link may export it, as
+// may signed-in editors.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const { snapshotId, format = 'json' } = req.query;
+  if (!isValidId(snapshotId)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Invalid snapshot id.',
+    });
+  }
+  if (typeof format !== 'string' || !FORMATS.hasOwnProperty(format)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected a `json` or `markdown` format.',
+    });
+  }
+
+  const editor = await getSessionEditor(req);
+  const previewData = req.previewData as PreviewData | undefined;
+  const isPreviewing =
+    previewData?.snapshotId === snapshotId && !previewData.error;
+  if (!editor && !isPreviewing) {
+    return sendError(res, {
+      code: 'forbidden',
+      message: 'Open the share link to export.',
+    });
+  }
+
+  let result: ReturnType<typeof readSnapshot>;
+  try {
+    result = readSnapshot(await getSnapshotStore().get(snapshotId));
+  } catch (err) {
+    logError('snapshot.export_failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The snapshot could not be loaded.',
+    });
+  }
+  if (result.ok === false) {
+    return sendError(res, { code: 'not-found', message: 'No such snapshot.' });
+  }
+
+  const bundle = createBundle(snapshotId, result.snapshot);
+  const { type, extension } = FORMATS[format as BundleFormat];
+  res.setHeader('Content-Type', `${type}; charset=utf-8`);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="snapshot-${snapshotId}.${extension}"`
+  );
+  res.setHeader('Cache-Control', 'private, no-store');
+  res
+    .status(200)
+    .send(
+      format === 'markdown'
+        ? bundleToMarkdown(bundle)
+        : JSON.stringify(bundle, null, 2)
+    );
+};
@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPage } from '../../content/pages';
+import { getSessionEditor } from '../../lib/auth';
+import { sendError } from '../../lib/errors';
+import { readBundle } from '../../lib/snapshot-bundle';
+
+// Reads a bundle downloaded from api/export/[snapshotId].tsx and returns its
+// documents, validated against the `page` being edited. Nothing is stored:
+// the editor opens them as a new draft, to be shared like any other.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    return sendError(
+      res,
+      { code: 'forbidden', message: 'You must be signed in to import.' },
+      401
+    );
+  }
+
+  const { page: slug, bundle } = req.body ?? {};
+  const page = typeof slug === 'string' ? getPage(slug) : null;
+  if (!page || typeof bundle !== 'string') {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected a page and a bundle.',
+    });
+  }
+
+  const result = readBundle(bundle, page);
+  if (result.ok === false) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'The bundle is invalid.',
+      errors: result.errors,
+    });
+  }
+  res.status(200).json(result.draft);
+};
+
+export const config = {
+  api: {
+    // Bundles are somewhat larger than the edits saved from the editor.
+    bodyParser: { sizeLimit: '512kb' },
+  },
+};
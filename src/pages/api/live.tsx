@@ -0,0 +1,168 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPage, pageFieldElements } from '../../content/pages';
+import { EditorUser, getSessionEditor } from '../../lib/auth';
+import { sendError } from '../../lib/errors';
+import { getLiveRelay, LiveEvent, liveSessionId } from '../../lib/live';
+import { isValidId } from '../../lib/snapshot-store';
+import { validateDocument } from '../../lib/validate-document';
+
+// Keeps proxies from closing an idle event stream.
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// Clients only send the fields that changed since their last update.
+const MAX_FIELDS_PER_UPDATE = 50;
+
+function sendEvent(res: NextApiResponse, event: LiveEvent) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+// Live editing sessions, shared by every editor working on the same page and
+// base snapshot:
+//
+// - `GET` joins the session and streams its events (server-sent events).
+// - `POST` sends a change: edited `fields`, the `fieldId` the participant is
+//   focused on, or the `snapshotId` their shared edits were saved as.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    return sendError(
+      res,
+      { code: 'forbidden', message: 'You must be signed in to edit.' },
+      401
+    );
+  }
+
+  const params = (req.method === 'GET' ? req.query : req.body) ?? {};
+  const page = typeof params.page === 'string' ? getPage(params.page) : null;
+  const base = params.base || null;
+  const { participantId } = params;
+  if (!page || (base !== null && !isValidId(base))) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected a page and base snapshot.',
+    });
+  }
+  if (!isValidId(participantId)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected a participant id.',
+    });
+  }
+  const sessionId = liveSessionId(page.slug, base);
+
+  if (req.method === 'GET') {
+    return stream(req, res, sessionId, participantId, editor);
+  }
+
+  const relay = getLiveRelay();
+  const participant = await relay.getParticipant(sessionId, participantId);
+  if (participant?.editorId !== editor.id) {
+    return sendError(res, {
+      code: 'conflict',
+      message: 'Join the session before editing.',
+    });
+  }
+
+  const { fields, fieldId, snapshotId } = req.body;
+  if (Array.isArray(fields)) {
+    const elements = pageFieldElements(page);
+    const errors: string[] = [];
+    if (fields.length > MAX_FIELDS_PER_UPDATE) {
+      errors.push(`fields: exceeds ${MAX_FIELDS_PER_UPDATE} fields.`);
+    }
+    const updates = fields.map((field, i) => {
+      if (!elements.has(field?.id)) {
+        errors.push(`fields[${i}].id: unknown field.`);
+        return null;
+      }
+      return {
+        id: field.id,
+        document: validateDocument(
+          field.document,
+          `fields[${i}].document`,
+          errors,
+          elements.get(field.id)
+        ),
+      };
+    });
+    if (errors.length) {
+      return sendError(res, {
+        code: 'invalid-payload',
+        message: 'The edits are invalid.',
+        errors,
+      });
+    }
+    for (const { id, document } of updates) {
+      await relay.updateField(sessionId, id, document, participantId);
+    }
+  } else if (fieldId === null || page.fields.some(({ id }) => id === fieldId)) {
+    await relay.setPresence(sessionId, participantId, fieldId);
+  } else if (isValidId(snapshotId)) {
+    await relay.announce(sessionId, {
+      type: 'saved',
+      snapshotId,
+      participantId,
+      name: editor.name,
+    });
+  } else {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected fields, a field or a snapshot.',
+    });
+  }
+  res.status(204).end();
+};
+
+async function stream(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  sessionId: string,
+  participantId: string,
+  editor: EditorUser
+) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    // `no-transform` keeps compression from buffering the stream.
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+
+  const relay = getLiveRelay();
+  const unsubscribe = relay.subscribe(sessionId, (event) =>
+    sendEvent(res, event)
+  );
+  await relay.join(sessionId, {
+    id: participantId,
+    editorId: editor.id,
+    name: editor.name,
+    fieldId: null,
+  });
+  sendEvent(res, { type: 'state', ...(await relay.getState(sessionId)) });
+
+  const heartbeat = setInterval(
+    () => res.write(': ping\n\n'),
+    HEARTBEAT_INTERVAL
+  );
+
+  // Resolve once the browser disconnects, so Next.js doesn't consider the
+  // request unanswered.
+  await new Promise<void>((resolve) => req.on('close', resolve));
+  clearInterval(heartbeat);
+  unsubscribe();
+  await relay.leave(sessionId, participantId);
+  res.end();
+}
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '256kb' },
+  },
+};
@@ -0,0 +1,48 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionEditor } from '../../lib/auth';
+import { sendError } from '../../lib/errors';
+import { renderMetrics } from '../../lib/metrics';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Scrapers authenticate with `Authorization: Bearer <METRICS_TOKEN>`; admins
+// can also read the metrics from their session. Without a token configured,
+// only admins can.
+async function isAuthorized(req: NextApiRequest) {
+  const token = process.env.METRICS_TOKEN;
+  const [scheme, credentials] = (req.headers.authorization ?? '').split(' ');
+  if (
+    token &&
+    scheme === 'Bearer' &&
+    credentials != null &&
+    timingSafeEqual(digest(credentials), digest(token))
+  ) {
+    return true;
+  }
+  return (await getSessionEditor(req))?.role === 'admin';
+}
+
+// This server instance's metrics, in the Prometheus text format.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  if (!(await isAuthorized(req))) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return sendError(
+      res,
+      { code: 'forbidden', message: 'A valid metrics token is required.' },
+      401
+    );
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).send(renderMetrics());
+  res.end();
+};
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendError } from '../../../lib/errors';
+import { logError } from '../../../lib/log';
+import { getSnapshotCardImage } from '../../../lib/og-image';
+import { getRequestId } from '../../../lib/request-id';
+import { recordShareMiss } from '../../../lib/share-links';
+import { isValidId } from '../../../lib/snapshot-store';
+
+// The Open Graph image of a share link, referenced by its landing page
+// (s/[snapshotId].tsx) so chat tools can show what the draft is about.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', 'GET, HEAD');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const { snapshotId } = req.query;
+  let image: Buffer | null = null;
+  try {
+    image = isValidId(snapshotId)
+      ? await getSnapshotCardImage(snapshotId)
+      : null;
+  } catch (err) {
+    logError('og.render_failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    res.status(500).send('Internal Server Error');
+    return res.end();
+  }
+  // Missing ids count towards the share link miss limit, so cards can't be
+  // used to probe for snapshots.
+  if (!image && !(await recordShareMiss(req, requestId))) {
+    res.status(429).send('Too Many Requests');
+    return res.end();
+  }
+  if (!image) {
+    res.status(404).send('Not Found');
+    return res.end();
+  }
+
+  // Snapshots never change, but protecting or expiring a link changes its
+  // card, so it's only cached for a while.
+  res.setHeader('Content-Type', 'image/png');
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.status(200).end(image);
+};
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pagePath } from '../../../content/pages';
+import { requireAdmin } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import { logError } from '../../../lib/log';
+import { publishSnapshot, revalidatePage } from '../../../lib/publish';
+import { getRequestId } from '../../../lib/request-id';
+import { readSnapshot } from '../../../lib/snapshot';
+import { getSnapshotStore, isValidId } from '../../../lib/snapshot-store';
+
+// Promotes a snapshot to the live content of its page, then regenerates the
+// static page so visitors see it without a redeploy.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  const admin = await requireAdmin(req, res);
+  if (!admin) return;
+
+  const { snapshotId } = req.query;
+  if (!isValidId(snapshotId)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Invalid snapshot id.',
+    });
+  }
+
+  let path: string;
+  let version: number;
+  try {
+    const result = readSnapshot(await getSnapshotStore().get(snapshotId));
+    if (result.ok === false) {
+      return sendError(res, {
+        code: 'not-found',
+        message: 'The snapshot does not exist.',
+      });
+    }
+    path = pagePath(result.snapshot.page);
+    ({ version } = await publishSnapshot(snapshotId, result.snapshot, admin));
+  } catch (err) {
+    logError('snapshot.publish_failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The snapshot could not be published.',
+    });
+  }
+
+  res.status(200).json({
+    version,
+    path,
+    revalidated: await revalidatePage(res, path, requestId),
+  });
+  res.end();
+};
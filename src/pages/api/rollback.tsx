@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPage, pagePath } from '../../content/pages';
+import { requireAdmin } from '../../lib/auth';
+import { sendError } from '../../lib/errors';
+import { logError } from '../../lib/log';
+import { revalidatePage, rollBackPage } from '../../lib/publish';
+import { getRequestId } from '../../lib/request-id';
+
+// Serves a previously published version of a page again (or its default
+// content, for a `null` version), then regenerates the static page.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  if (!(await requireAdmin(req, res))) return;
+
+  const { page, version } = req.body ?? {};
+  const contentPage = typeof page === 'string' ? getPage(page) : undefined;
+  if (!contentPage || !(version === null || Number.isInteger(version))) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Expected a page and a version.',
+    });
+  }
+
+  try {
+    if (!(await rollBackPage(contentPage.slug, version))) {
+      return sendError(res, {
+        code: 'not-found',
+        message: `Unknown version ${version}.`,
+      });
+    }
+  } catch (err) {
+    logError('page.rollback_failed', {
+      requestId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The page could not be rolled back.',
+    });
+  }
+
+  const path = pagePath(contentPage.slug);
+  res.status(200).json({
+    version,
+    path,
+    revalidated: await revalidatePage(res, path, requestId),
+  });
+  res.end();
+};
@@ -1,43 +1,220 @@
-import S3 from 'aws-sdk/clients/s3';
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { generate as generateId } from 'shortid';
+import { getPage } from '../../content/pages';
+import { getSessionEditor } from '../../lib/auth';
+import { sendError } from '../../lib/errors';
+import {
+  claimIdempotencyKey,
+  IdempotencyClaim,
+  IDEMPOTENCY_HEADER,
+  isValidIdempotencyKey,
+} from '../../lib/idempotency';
+import { logError, logInfo } from '../../lib/log';
+import {
+  secondsSince,
+  snapshotSaveBytes,
+  snapshotSaveDuration,
+  snapshotSaveFields,
+  snapshotSaves,
+} from '../../lib/metrics';
+import {
+  consume,
+  getClientIp,
+  RateLimitResult,
+  RateLimitRule,
+  setRateLimitHeaders,
+} from '../../lib/rate-limit';
+import { getRequestId } from '../../lib/request-id';
+import {
+  createShareSettings,
+  resetManageToken,
+} from '../../lib/share-settings';
+import {
+  createShortLink,
+  createSnapshot,
+  deleteShortLink,
+} from '../../lib/share-links';
+import { getPublishedEdits } from '../../lib/publish';
+import {
+  countChangedFields,
+  validateSnapshotRequest,
+} from '../../lib/snapshot';
+import { deleteSnapshot } from '../../lib/snapshot-admin';
+import { getSnapshotStore } from '../../lib/snapshot-store';
 
-// Initialize S3 instance in module scope for re-use across requests.
-const s3 = new S3({
-  credentials: {
-    accessKeyId: process.env.AWS_S3_ACCESS_KEY_ID,
-    secretAccessKey: process.env.AWS_S3_SECRET_ACCESS_KEY,
-  },
-});
+// Generous enough for an editor iterating on a draft, tight enough that a
+// script can't fill the bucket with snapshots.
+const IP_LIMIT: RateLimitRule = {
+  name: 'save:ip',
+  limit: 30,
+  windowMs: 10 * 60 * 1000,
+};
+const SESSION_LIMIT: RateLimitRule = {
+  name: 'save:session',
+  limit: 10,
+  windowMs: 60 * 1000,
+};
+
+function rejectIfLimited(res: NextApiResponse, results: RateLimitResult[]) {
+  const { allowed, retryAfter } = setRateLimitHeaders(res, results);
+  if (allowed) return false;
+  sendError(res, {
+    code: 'rate-limited',
+    message: `Too many saves. Please try again in ${retryAfter} seconds.`,
+    retryAfter,
+  });
+  return true;
+}
 
 export default async (req: NextApiRequest, res: NextApiResponse) => {
-  // Generate a friendly ID for this save request:
-  const snapshotId = generateId();
+  const requestId = getRequestId(req, res);
+  const start = process.hrtime.bigint();
+  res.once('finish', () => {
+    const status = String(res.statusCode);
+    snapshotSaves.inc({ status });
+    snapshotSaveDuration.observe(secondsSince(start), { status });
+  });
+
+  // Throttle by address first, so anonymous floods are cheap to turn away.
+  const ipLimit = await consume(IP_LIMIT, getClientIp(req));
+  if (rejectIfLimited(res, [ipLimit])) return;
+
+  // Only signed-in editors may write to storage.
+  const editor = await getSessionEditor(req);
+  if (!editor) {
+    return sendError(
+      res,
+      { code: 'forbidden', message: 'You must be signed in to save edits.' },
+      401
+    );
+  }
+
+  // Optional, but retries without one may save the same edits twice.
+  const idempotencyKey = req.headers[IDEMPOTENCY_HEADER.toLowerCase()];
+  if (idempotencyKey !== undefined && !isValidIdempotencyKey(idempotencyKey)) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: `Invalid ${IDEMPOTENCY_HEADER} header.`,
+    });
+  }
+
+  const sessionLimit = await consume(SESSION_LIMIT, editor.id);
+  if (rejectIfLimited(res, [ipLimit, sessionLimit])) return;
 
   // Next.js automatically handles body parsing for `POST`, `PUT`, et al.
-  const contents = req.body as { id: string; innerText: string }[];
+  // The body is untrusted, so validate it against the fields its page
+  // declares before it goes anywhere near storage.
+  const result = validateSnapshotRequest(req.body, editor);
+  if (result.ok === false) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'The submitted edits are invalid.',
+      errors: result.errors,
+    });
+  }
+  const { snapshot } = result;
+
+  let snapshotId: string;
+  // The friendly `/s/<alias>` form of the share link.
+  let alias: string;
+  // Lets the author protect the share link later on (see
+  // `api/share-settings/[snapshotId].tsx`).
+  let manageToken: string;
+  // Saves include every field on the page; this counts the edited ones.
+  let changedFields: number;
 
-  // Upload the user-provided data to S3 under the randomly generated ID.
-  //
-  // We're not worried about ID collisions, but a real application probably
-  // should be!
+  let claim: IdempotencyClaim = null;
+
+  // Persist the user-provided data under a random, unguessable ID. The write
+  // never overwrites an existing snapshot; a colliding ID is regenerated.
   try {
-    await s3
-      .upload({
-        Bucket: process.env.AWS_S3_BUCKET,
-        Key: `${snapshotId}.json`,
-        Body: JSON.stringify(contents),
-      })
-      .promise();
-  } catch (err) {
-    console.error(err);
-    res.status(500).send('Internal Server Error');
-    return res.end();
+    const store = getSnapshotStore();
+
+    // Only link to parents that actually exist, so revision history never
+    // points at a dangling snapshot.
+    if (snapshot.parentId && !(await store.exists(snapshot.parentId))) {
+      return sendError(res, {
+        code: 'invalid-payload',
+        message: 'The submitted edits are invalid.',
+        errors: [`parentId: snapshot "${snapshot.parentId}" does not exist.`],
+      });
+    }
+
+    if (typeof idempotencyKey === 'string') {
+      claim = await claimIdempotencyKey(editor.id, idempotencyKey, req.body);
+      if (claim.status === 'pending') {
+        res.setHeader('Retry-After', '1');
+        return sendError(res, {
+          code: 'conflict',
+          message: 'These edits are still being saved.',
+          retryAfter: 1,
+        });
+      }
+      if (claim.status === 'mismatch') {
+        return sendError(res, {
+          code: 'invalid-payload',
+          message: `The ${IDEMPOTENCY_HEADER} was already used for other edits.`,
+        });
+      }
+    }
+
+    if (claim?.status === 'done') {
+      // A retry of a save that went through: answer as before. Should the
+      // original manage token be unreadable, the author gets a new one.
+      ({ snapshotId, alias, manageToken } = claim);
+      manageToken ??= await resetManageToken(snapshotId);
+    } else {
+      const page = getPage(snapshot.page);
+      changedFields = countChangedFields(
+        page,
+        snapshot.edits,
+        await getPublishedEdits(page)
+      );
+      snapshotId = await createSnapshot(snapshot);
+      try {
+        alias = await createShortLink(snapshotId);
+        manageToken = await createShareSettings(snapshotId);
+      } catch (error) {
+        // Don't leave a snapshot behind without its link or settings; a retry
+        // saves it again under a new id.
+        await Promise.all([
+          deleteSnapshot(snapshotId),
+          alias && deleteShortLink(alias),
+        ]).catch(() => {});
+        throw error;
+      }
+      if (claim?.status === 'new') {
+        await claim.complete({ snapshotId, alias, manageToken });
+      }
+    }
+  } catch (error) {
+    logError('snapshot.save_failed', { requestId, editorId: editor.id, error });
+    // Let a retry with the same key try again.
+    if (claim?.status === 'new') await claim.release().catch(() => {});
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The snapshot could not be stored.',
+    });
+  }
+
+  if (claim?.status !== 'done') {
+    const bytes = Buffer.byteLength(JSON.stringify(snapshot));
+    snapshotSaveBytes.observe(bytes);
+    snapshotSaveFields.observe(changedFields);
+    logInfo('snapshot.saved', {
+      requestId,
+      snapshotId,
+      editorId: editor.id,
+      page: snapshot.page,
+      bytes,
+      fields: snapshot.edits.length,
+      changedFields,
+      durationMs: Math.round(secondsSince(start) * 1000),
+    });
   }
 
   // Return the `snapshotId` so the frontend can generate a sharable link.
   res.status(200);
-  res.json({ snapshotId });
+  res.json({ snapshotId, alias, manageToken });
   res.end();
 };
 
@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendError } from '../../../lib/errors';
+import { logError } from '../../../lib/log';
+import { getRequestId } from '../../../lib/request-id';
+import {
+  getShareSettings,
+  hashSecret,
+  putShareSettings,
+  validateSettingsUpdate,
+  verifySecret,
+} from '../../../lib/share-settings';
+import { isValidId } from '../../../lib/snapshot-store';
+
+// Updates the protections (expiry, view limit, passphrase) of a share link.
+// Only the author, who received a `manageToken` when saving, may do so.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  const requestId = getRequestId(req, res);
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+
+  const { snapshotId } = req.query;
+  const { manageToken } = req.body ?? {};
+  if (!isValidId(snapshotId) || typeof manageToken !== 'string') {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'Missing snapshot id or manage token.',
+    });
+  }
+
+  const result = validateSettingsUpdate(req.body);
+  if (result.ok === false) {
+    return sendError(res, {
+      code: 'invalid-payload',
+      message: 'The submitted share settings are invalid.',
+      errors: result.errors,
+    });
+  }
+  const { update } = result;
+
+  try {
+    const settings = await getShareSettings(snapshotId);
+    if (
+      !settings ||
+      !(await verifySecret(manageToken, settings.manageTokenHash))
+    ) {
+      return sendError(res, {
+        code: 'forbidden',
+        message: 'You may not change the settings of this link.',
+      });
+    }
+
+    const passphraseHash =
+      update.passphrase === undefined
+        ? settings.passphraseHash
+        : update.passphrase === null
+        ? null
+        : await hashSecret(update.passphrase);
+    await putShareSettings(snapshotId, {
+      ...settings,
+      expiresAt: update.expiresAt,
+      maxViews: update.maxViews,
+      passphraseHash,
+    });
+
+    res.status(200).json({
+      expiresAt: update.expiresAt,
+      maxViews: update.maxViews,
+      hasPassphrase: passphraseHash != null,
+    });
+  } catch (err) {
+    logError('share_settings.save_failed', {
+      requestId,
+      snapshotId,
+      error: err,
+    });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The share settings could not be saved.',
+    });
+  }
+  res.end();
+};
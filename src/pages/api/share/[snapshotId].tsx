@@ -1,19 +1,112 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionEditor } from '../../../lib/auth';
+import { sendError } from '../../../lib/errors';
+import { logError, logInfo } from '../../../lib/log';
+import { previewEntries } from '../../../lib/metrics';
+import { getSnapshotPath, PreviewData } from '../../../lib/preview';
+import { getRequestId, REQUEST_ID_PARAM } from '../../../lib/request-id';
+import { safeReturnPath } from '../../../lib/return-path';
+import {
+  checkShareAccess,
+  getShareSettings,
+  recordShareView,
+  ShareSettings,
+} from '../../../lib/share-settings';
+import { recordShareMiss, resolveShareId } from '../../../lib/share-links';
+import { getSnapshotStore } from '../../../lib/snapshot-store';
+
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  // Links opened from within the app pass the page to return to.
+  const next = safeReturnPath(req.query.next);
+  // The landing page passes its own, to correlate the whole share flow.
+  const requestId = getRequestId(req, res, req.query[REQUEST_ID_PARAM]);
+  let snapshotId: string | null = null;
+  const entered = (result: string) => {
+    previewEntries.inc({ result });
+    logInfo('preview.entered', { requestId, snapshotId, result });
+  };
+  const storageFailed = (error: unknown) => {
+    entered('storage-unavailable');
+    logError('preview.enter_failed', { requestId, snapshotId, error });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The share link could not be opened. Please try again.',
+    });
+  };
 
-export default (req: NextApiRequest, res: NextApiResponse) => {
   // Next.js passes the URL parameters as values in the query string object to
-  // API endpoints:
-  const { snapshotId } = req.query;
+  // API endpoints. Links carry either the snapshot id or its short link alias.
+  let exists: boolean;
+  try {
+    snapshotId = await resolveShareId(req.query.snapshotId);
+    exists = !!snapshotId && (await getSnapshotStore().exists(snapshotId));
+  } catch (error) {
+    return storageFailed(error);
+  }
+
+  // A missing snapshot falls through to the error page rendered by
+  // `getStaticProps`, unless the client keeps asking for ones that don't
+  // exist.
+  if (!exists && !(await recordShareMiss(req, requestId))) {
+    entered('rate-limited');
+    return sendError(res, {
+      code: 'rate-limited',
+      message: 'Too many share links led nowhere. Please try again later.',
+    });
+  }
+
+  // Protected links are checked before entering "Preview Mode".
+  let settings: ShareSettings | null = null;
+  try {
+    if (exists) settings = await getShareSettings(snapshotId);
+  } catch (error) {
+    return storageFailed(error);
+  }
+  // Admins opening a snapshot from the dashboard (admin/snapshots.tsx) skip
+  // the passphrase and don't use up views.
+  const isAdmin = (await getSessionEditor(req))?.role === 'admin';
+  const access = checkShareAccess(settings, { countingView: !isAdmin });
+
+  if (access === 'ok' && settings?.passphraseHash && !isAdmin) {
+    // The interstitial page asks for the passphrase and enters "Preview Mode"
+    // itself (api/unlock/[snapshotId].tsx).
+    entered('locked');
+    const params = new URLSearchParams({ [REQUEST_ID_PARAM]: requestId });
+    if (next) params.set('next', next);
+    res.writeHead(307, {
+      Location: `/unlock/${encodeURIComponent(snapshotId)}?${params}`,
+    });
+    return res.end();
+  }
+  if (access === 'ok' && !isAdmin) {
+    try {
+      await recordShareView(snapshotId, settings);
+    } catch (error) {
+      return storageFailed(error);
+    }
+  }
+  entered(exists ? access : 'missing');
 
   // Enter the current user into "Preview Mode" by calling `setPreviewData` on
   // the API response.
   //
   // Arbitrary data may be passed to this function, and it will be provided to
-  // a page when calling `getStaticProps` or `getServerSideProps`.
-  res.setPreviewData({ snapshotId });
+  // a page when calling `getStaticProps` or `getServerSideProps`. Links to
+  // missing snapshots and expired or exhausted links carry the reason, so the
+  // page can render the error UI without looking the snapshot up again.
+  const error: PreviewData['error'] = !exists
+    ? 'not-found'
+    : access !== 'ok'
+    ? access
+    : undefined;
+  res.setPreviewData(
+    error ? { snapshotId, error, requestId } : { snapshotId, requestId }
+  );
 
-  // Redirect the user back to the index page. Normally, you'd redirect them to
-  // a `next`-URL query parameter or from other state.
-  res.writeHead(307, { Location: '/' });
+  // Redirect the user back where they came from, or else to the page the
+  // snapshot edits.
+  res.writeHead(307, {
+    Location: next ?? (exists ? await getSnapshotPath(snapshotId) : '/'),
+  });
   res.end();
 };
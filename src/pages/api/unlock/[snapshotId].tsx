@@ -0,0 +1,147 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendError } from '../../../lib/errors';
+import { logError, logInfo } from '../../../lib/log';
+import { previewEntries } from '../../../lib/metrics';
+import { getSnapshotPath } from '../../../lib/preview';
+import {
+  consume,
+  getClientIp,
+  RateLimitRule,
+  setRateLimitHeaders,
+} from '../../../lib/rate-limit';
+import { getRequestId, REQUEST_ID_PARAM } from '../../../lib/request-id';
+import { safeReturnPath } from '../../../lib/return-path';
+import {
+  checkShareAccess,
+  getShareSettings,
+  recordShareView,
+  ShareSettings,
+  verifySecret,
+} from '../../../lib/share-settings';
+import { recordShareMiss } from '../../../lib/share-links';
+import { getSnapshotStore, isValidId } from '../../../lib/snapshot-store';
+
+// Passphrase guesses are throttled per client, and per snapshot so that
+// guessing from many addresses doesn't help either.
+const IP_LIMIT: RateLimitRule = {
+  name: 'unlock:ip',
+  limit: 20,
+  windowMs: 10 * 60 * 1000,
+};
+const SNAPSHOT_LIMIT: RateLimitRule = {
+  name: 'unlock:snapshot',
+  limit: 50,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Receives the passphrase form from the interstitial page (unlock/[snapshotId])
+// and enters "Preview Mode" when it matches.
+export default async (req: NextApiRequest, res: NextApiResponse) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendError(res, {
+      code: 'method-not-allowed',
+      message: 'Method Not Allowed',
+    });
+  }
+  const { snapshotId } = req.query;
+  if (!isValidId(snapshotId)) {
+    return sendError(res, {
+      code: 'not-found',
+      message: 'The snapshot does not exist.',
+    });
+  }
+
+  const { passphrase, next, [REQUEST_ID_PARAM]: rid } = req.body ?? {};
+  const returnPath = safeReturnPath(next);
+  const requestId = getRequestId(req, res, rid);
+  const entered = (result: string) => {
+    previewEntries.inc({ result });
+    logInfo('preview.entered', { requestId, snapshotId, result });
+  };
+  const storageFailed = (error: unknown) => {
+    logError('preview.unlock_failed', { requestId, snapshotId, error });
+    return sendError(res, {
+      code: 'storage-unavailable',
+      message: 'The share link could not be opened. Please try again.',
+    });
+  };
+
+  let exists: boolean;
+  let settings: ShareSettings | null = null;
+  try {
+    exists = await getSnapshotStore().exists(snapshotId);
+    if (exists) settings = await getShareSettings(snapshotId);
+  } catch (error) {
+    return storageFailed(error);
+  }
+  // Ids that don't exist count towards the same limit as share links that
+  // lead nowhere, so this can't be used to probe for ids either.
+  if (!exists) {
+    if (await recordShareMiss(req, requestId)) {
+      entered('missing');
+      return sendError(res, {
+        code: 'not-found',
+        message: 'The snapshot does not exist.',
+      });
+    }
+    entered('rate-limited');
+    return sendError(res, {
+      code: 'rate-limited',
+      message: 'Too many share links led nowhere. Please try again later.',
+    });
+  }
+
+  if (settings?.passphraseHash) {
+    const { allowed, retryAfter } = setRateLimitHeaders(res, [
+      await consume(IP_LIMIT, getClientIp(req)),
+      await consume(SNAPSHOT_LIMIT, snapshotId),
+    ]);
+    if (!allowed) {
+      entered('rate-limited');
+      return sendError(res, {
+        code: 'rate-limited',
+        message: `Too many passphrase attempts. Please try again in ${retryAfter} seconds.`,
+        retryAfter,
+      });
+    }
+  }
+
+  const isUnlocked =
+    !settings?.passphraseHash ||
+    (typeof passphrase === 'string' &&
+      (await verifySecret(passphrase, settings.passphraseHash)));
+
+  if (!isUnlocked) {
+    entered('wrong-passphrase');
+    const params = new URLSearchParams({
+      failed: '1',
+      [REQUEST_ID_PARAM]: requestId,
+    });
+    if (returnPath) params.set('next', returnPath);
+    // Use 303 so the browser follows up with a `GET`.
+    res.writeHead(303, {
+      Location: `/unlock/${encodeURIComponent(snapshotId)}?${params}`,
+    });
+    return res.end();
+  }
+
+  const access = checkShareAccess(settings, { countingView: true });
+  if (access === 'ok') {
+    try {
+      await recordShareView(snapshotId, settings);
+    } catch (error) {
+      return storageFailed(error);
+    }
+  }
+  entered(access);
+  res.setPreviewData(
+    access === 'ok'
+      ? { snapshotId, requestId }
+      : { snapshotId, error: access, requestId }
+  );
+  res.writeHead(303, {
+    Location: returnPath ?? (await getSnapshotPath(snapshotId)),
+  });
+  res.end();
+};
@@ -0,0 +1,139 @@
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { ErrorPage, ErrorPageProps } from '../../components/error';
+import { getSessionEditor } from '../../lib/auth';
+import { logError } from '../../lib/log';
+import type { PreviewData } from '../../lib/preview';
+import { getRequestId } from '../../lib/request-id';
+import {
+  checkShareAccess,
+  getShareSettings,
+  ShareSettings,
+} from '../../lib/share-settings';
+import {
+  loadAncestry,
+  readSnapshot,
+  SnapshotRevision,
+} from '../../lib/snapshot';
+import { getSnapshotStore, isValidId } from '../../lib/snapshot-store';
+import layoutStyles from '../../styles/layout.module.css';
+
+// Ancestors of a passphrase-protected snapshot are listed without their ids,
+// which would be share links of their own.
+type HistoryRevision = Omit<SnapshotRevision, 'id'> & { id: string | null };
+
+// Only editors and visitors previewing the snapshot may see its history, so
+// it reveals no more than the share link (and its passphrase) already does.
+export const getServerSideProps: GetServerSideProps = async ({
+  req,
+  res,
+  params,
+  previewData,
+}) => {
+  const { snapshotId } = params;
+  if (!isValidId(snapshotId)) return { notFound: true };
+
+  const editor = await getSessionEditor(req);
+  const preview = previewData as PreviewData | undefined;
+  const isPreviewing = preview?.snapshotId === snapshotId && !preview.error;
+  if (!editor && !isPreviewing) return { notFound: true };
+
+  let settings: ShareSettings | null;
+  let ancestry: SnapshotRevision[];
+  try {
+    settings = await getShareSettings(snapshotId);
+    if (
+      !editor &&
+      checkShareAccess(settings, { countingView: false }) !== 'ok'
+    ) {
+      return { notFound: true };
+    }
+
+    const store = getSnapshotStore();
+    ancestry = await loadAncestry(snapshotId, async (id) => {
+      const result = readSnapshot(await store.get(id));
+      return result.ok === true ? result.snapshot : null;
+    });
+  } catch (error) {
+    logError('history.load_failed', {
+      requestId: getRequestId(req, res),
+      snapshotId,
+      error,
+    });
+    res.statusCode = 503;
+    const props: ErrorPageProps = {
+      hasError: true,
+      code: 'storage-unavailable',
+      message: 'An error has occurred while connecting to storage.',
+    };
+    return { props };
+  }
+  if (!ancestry.length) return { notFound: true };
+
+  const isProtected = !editor && !!settings?.passphraseHash;
+  const revisions: HistoryRevision[] = isProtected
+    ? ancestry.map((revision) => ({
+        ...revision,
+        id: revision.id === snapshotId ? revision.id : null,
+        author: null,
+      }))
+    : ancestry;
+
+  return { props: { snapshotId, revisions } };
+};
+
+export default function History(
+  props: { snapshotId: string; revisions: HistoryRevision[] } | ErrorPageProps
+) {
+  if ('hasError' in props) return <ErrorPage {...props} />;
+  const { snapshotId, revisions } = props;
+  return (
+    <>
+      <Head>
+        <title>Next.js | Preview Mode | History</title>
+      </Head>
+      <div className={layoutStyles.layout}>
+        <aside role="alert">
+          <a
+            href={`/api/exit?next=${encodeURIComponent(
+              `/history/${snapshotId}`
+            )}`}
+            data-exit
+          >
+            Preview Mode
+          </a>
+        </aside>
+        <h1>History</h1>
+        <h2>How this draft evolved, newest first.</h2>
+        <div className="explanation">
+          <ol className="history">
+            {revisions.map(({ id, label, createdAt, author }, i) => (
+              <li key={id ?? i}>
+                {id ? (
+                  <>
+                    {/* Following a share link switches the preview to that
+                        revision. */}
+                    <a href={`/s/${encodeURIComponent(id)}`}>
+                      {label || 'Untitled revision'}
+                    </a>{' '}
+                    <code>{id}</code>
+                  </>
+                ) : (
+                  label || 'Untitled revision'
+                )}
+                {id === snapshotId && <em> (current)</em>}
+                <br />
+                <small>
+                  {createdAt
+                    ? new Date(createdAt).toUTCString()
+                    : 'Created before revision history was recorded'}
+                  {author && ` by ${author.name}`}
+                </small>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,77 @@
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { EditorUser, getSessionEditor } from '../lib/auth';
+import layoutStyles from '../styles/layout.module.css';
+
+export const getServerSideProps: GetServerSideProps = async ({
+  req,
+  query,
+}) => {
+  const editor = await getSessionEditor(req);
+  return { props: { editor, failed: query.failed === '1' } };
+};
+
+export default function Login({
+  editor,
+  failed,
+}: {
+  editor: EditorUser | null;
+  failed: boolean;
+}) {
+  return (
+    <>
+      <Head>
+        <title>Next.js | Preview Mode | Sign In</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className={layoutStyles.layout}>
+        <h1>Editor Sign In</h1>
+        {editor ? (
+          <>
+            <h2>
+              Signed in as <strong>{editor.name}</strong>.
+            </h2>
+            <form
+              className="explanation"
+              style={{ textAlign: 'center' }}
+              method="post"
+              action="/api/auth/logout"
+            >
+              <p>
+                <a href="/">Back to the page</a> ·{' '}
+                <button type="submit">Sign out</button>
+              </p>
+            </form>
+          </>
+        ) : (
+          <>
+            <h2>Only signed-in editors can edit and share this page.</h2>
+            <form
+              className="explanation unlock"
+              method="post"
+              action="/api/auth/login"
+            >
+              <input
+                type="text"
+                name="username"
+                aria-label="Username"
+                autoComplete="username"
+                autoFocus
+                required
+              />
+              <input
+                type="password"
+                name="password"
+                aria-label="Password"
+                autoComplete="current-password"
+                required
+              />
+              <button type="submit">Sign In</button>
+              {failed && <p role="alert">Incorrect username or password.</p>}
+            </form>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,244 @@
+import type { ServerResponse } from 'http';
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { ErrorPage, ErrorPageProps } from '../../components/error';
+import { getPage } from '../../content/pages';
+import { getSessionEditor } from '../../lib/auth';
+import { LogFields, logError } from '../../lib/log';
+import { CARD_HEIGHT, CARD_WIDTH } from '../../lib/og-image';
+import {
+  getCurrentVersion,
+  getPublishedPage,
+  PublishedVersion,
+} from '../../lib/publish';
+import { getRequestId, REQUEST_ID_PARAM } from '../../lib/request-id';
+import { safeReturnPath } from '../../lib/return-path';
+import {
+  checkShareAccess,
+  getShareSettings,
+  ShareSettings,
+  SHARE_ACCESS_MESSAGES,
+} from '../../lib/share-settings';
+import { recordShareMiss, resolveShareId } from '../../lib/share-links';
+import { getSiteOrigin } from '../../lib/site-url';
+import { readSnapshot, SnapshotAuthor } from '../../lib/snapshot';
+import { getSnapshotStore } from '../../lib/snapshot-store';
+import layoutStyles from '../../styles/layout.module.css';
+
+type Landing = {
+  snapshotId: string;
+  pageTitle: string;
+  // Withheld for passphrase-protected links.
+  label: string | null;
+  author: SnapshotAuthor | null;
+  createdAt: string | null;
+  // Relative to when the page was rendered, e.g. "3 hours ago".
+  age: string | null;
+  // Whether the page has been published since the snapshot was saved.
+  isOutdated: boolean;
+  isProtected: boolean;
+  // Why the link can no longer be opened, if it can't.
+  message: string | null;
+  next: string | null;
+  // Passed on to correlate the share flow (lib/request-id.ts).
+  requestId: string;
+  // The Open Graph image; it requires an absolute URL.
+  image: { url: string; width: number; height: number };
+};
+
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+function formatAge(timestamp: string, now: Date) {
+  const seconds = (now.getTime() - new Date(timestamp).getTime()) / 1000;
+  const format = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+  for (const [unit, size] of UNITS) {
+    if (seconds >= size)
+      return format.format(-Math.floor(seconds / size), unit);
+  }
+  return 'just now';
+}
+
+// Storage may be unreachable, in which case the landing page says so rather
+// than failing with a 500.
+function storageUnavailable(
+  res: ServerResponse,
+  details: LogFields
+): { props: ErrorPageProps } {
+  logError('share.landing_failed', details);
+  res.statusCode = 503;
+  return {
+    props: {
+      hasError: true,
+      code: 'storage-unavailable',
+      message: 'An error has occurred while connecting to storage.',
+    },
+  };
+}
+
+export const getServerSideProps: GetServerSideProps = async ({
+  req,
+  res,
+  params,
+  query,
+}) => {
+  const requestId = getRequestId(req, res, query[REQUEST_ID_PARAM]);
+  let snapshotId: string | null;
+  let stored: unknown;
+  try {
+    // Links carry either the snapshot id or its short link alias.
+    snapshotId = await resolveShareId(params.snapshotId);
+    stored = snapshotId && (await getSnapshotStore().get(snapshotId));
+  } catch (error) {
+    return storageUnavailable(res, { requestId, error });
+  }
+  if (stored == null) {
+    if (await recordShareMiss(req, requestId)) return { notFound: true };
+    res.statusCode = 429;
+    return { props: { isLimited: true } };
+  }
+
+  const result = readSnapshot(stored);
+  if (result.ok === false) return { notFound: true };
+  const { snapshot } = result;
+
+  // Nothing is counted here: views are only counted once the preview is
+  // opened, so link unfurlers don't use them up. Admins aren't limited by
+  // views at all, as in api/share/[snapshotId].tsx.
+  let settings: ShareSettings | null;
+  let published: PublishedVersion | null;
+  try {
+    settings = await getShareSettings(snapshotId);
+    published = getCurrentVersion(await getPublishedPage(snapshot.page));
+  } catch (error) {
+    return storageUnavailable(res, { requestId, snapshotId, error });
+  }
+  const isAdmin = (await getSessionEditor(req))?.role === 'admin';
+  const access = checkShareAccess(settings, { countingView: !isAdmin });
+  const isProtected = !!settings?.passphraseHash;
+
+  const landing: Landing = {
+    snapshotId,
+    pageTitle: getPage(snapshot.page)?.title ?? 'Home',
+    label: isProtected ? null : snapshot.label,
+    author: isProtected ? null : snapshot.author,
+    createdAt: snapshot.createdAt,
+    age: snapshot.createdAt && formatAge(snapshot.createdAt, new Date()),
+    isOutdated:
+      !!published &&
+      !!snapshot.createdAt &&
+      published.publishedAt > snapshot.createdAt,
+    isProtected,
+    message: access === 'ok' ? null : SHARE_ACCESS_MESSAGES[access],
+    next: safeReturnPath(query.next),
+    requestId,
+    image: {
+      url: `${getSiteOrigin()}/api/og/${encodeURIComponent(snapshotId)}`,
+      width: CARD_WIDTH,
+      height: CARD_HEIGHT,
+    },
+  };
+  return { props: landing };
+};
+
+// Where share links land. It describes the draft, for people and for link
+// previews alike, and only enters "Preview Mode" once "Open Preview" is
+// clicked (api/share/[snapshotId].tsx).
+export default function ShareLanding(
+  props: Landing | ErrorPageProps | { isLimited: true }
+) {
+  if ('hasError' in props) return <ErrorPage {...props} />;
+  if ('isLimited' in props) {
+    return (
+      <div className={layoutStyles.layout}>
+        <h1>Too Many Requests</h1>
+        <h2>Too many of the links you opened don't exist. Try again later.</h2>
+      </div>
+    );
+  }
+  const {
+    snapshotId,
+    pageTitle,
+    label,
+    author,
+    createdAt,
+    age,
+    isOutdated,
+    isProtected,
+    message,
+    next,
+    requestId,
+    image,
+  } = props;
+  const title = label || `Draft of ${pageTitle}`;
+  const description = isProtected
+    ? `A passphrase-protected draft of ${pageTitle}.`
+    : [
+        `A draft of ${pageTitle}`,
+        author && `by ${author.name}`,
+        age && `saved ${age}`,
+      ]
+        .filter(Boolean)
+        .join(' ') + '.';
+
+  return (
+    <>
+      <Head>
+        <title>{`Next.js | Preview Mode | ${title}`}</title>
+        <meta name="robots" content="noindex" />
+        <meta name="description" content={description} />
+        <meta property="og:type" content="website" />
+        <meta property="og:site_name" content="Next.js Preview Mode" />
+        <meta property="og:title" content={title} />
+        <meta property="og:description" content={description} />
+        <meta property="og:image" content={image.url} />
+        <meta property="og:image:type" content="image/png" />
+        <meta property="og:image:width" content={String(image.width)} />
+        <meta property="og:image:height" content={String(image.height)} />
+        <meta name="twitter:card" content="summary_large_image" />
+      </Head>
+      <div className={layoutStyles.layout}>
+        <h1>{title}</h1>
+        <h2>{description}</h2>
+        <div className="explanation">
+          <p>
+            {createdAt ? (
+              <>
+                Saved{' '}
+                <time dateTime={createdAt}>
+                  {new Date(createdAt).toUTCString()}
+                </time>
+                .
+              </>
+            ) : (
+              'Saved before revision history was recorded.'
+            )}
+          </p>
+          {isOutdated && (
+            <p>The live page has been updated since this draft was saved.</p>
+          )}
+        </div>
+        {message ? (
+          <div className="explanation">
+            <p role="alert">{message}</p>
+          </div>
+        ) : (
+          <form
+            className="explanation unlock"
+            method="get"
+            action={`/r/${encodeURIComponent(snapshotId)}`}
+          >
+            {next && <input type="hidden" name="next" value={next} />}
+            <input type="hidden" name="rid" value={requestId} />
+            <button type="submit">Open Preview</button>
+          </form>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+import { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import { getRequestId, REQUEST_ID_PARAM } from '../../lib/request-id';
+import { safeReturnPath } from '../../lib/return-path';
+import { isValidId } from '../../lib/snapshot-store';
+import layoutStyles from '../../styles/layout.module.css';
+
+export const getServerSideProps: GetServerSideProps = async ({
+  req,
+  res,
+  params,
+  query,
+}) => {
+  const { snapshotId } = params;
+  if (!isValidId(snapshotId)) return { notFound: true };
+  return {
+    props: {
+      snapshotId,
+      failed: query.failed === '1',
+      next: safeReturnPath(query.next),
+      requestId: getRequestId(req, res, query[REQUEST_ID_PARAM]),
+    },
+  };
+};
+
+// Interstitial page for passphrase-protected share links. "Preview Mode" is
+// only entered once the passphrase has been verified.
+export default function Unlock({
+  snapshotId,
+  failed,
+  next,
+  requestId,
+}: {
+  snapshotId: string;
+  failed: boolean;
+  // Where to return to once unlocked, passed on from the share link.
+  next: string | null;
+  // Passed on to correlate the share flow (lib/request-id.ts).
+  requestId: string;
+}) {
+  return (
+    <>
+      <Head>
+        <title>Next.js | Preview Mode | Protected</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <div className={layoutStyles.layout}>
+        <h1>Protected Preview</h1>
+        <h2>Enter the passphrase you were given to view these edits.</h2>
+        <form
+          className="explanation unlock"
+          method="post"
+          action={`/api/unlock/${encodeURIComponent(snapshotId)}`}
+        >
+          <input
+            type="password"
+            name="passphrase"
+            aria-label="Passphrase"
+            autoComplete="off"
+            autoFocus
+            required
+          />
+          {next && <input type="hidden" name="next" value={next} />}
+          <input type="hidden" name="rid" value={requestId} />
+          <button type="submit">Open Preview</button>
+          {failed && <p role="alert">That passphrase is incorrect.</p>}
+        </form>
+      </div>
+    </>
+  );
+}
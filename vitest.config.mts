@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Tests never touch S3; every store namespace lives in memory.
+    env: { SNAPSHOT_STORE: 'memory' },
+  },
+});